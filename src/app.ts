@@ -0,0 +1,321 @@
+import express from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ServerOptions } from '@modelcontextprotocol/sdk/server/index.js';
+import { EventStore, StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Implementation, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import cors from 'cors';
+import { AuditLogger } from './audit.js';
+import {
+  AccessPolicy,
+  AuthContext,
+  TokenVerifier,
+  TokenVerifierOptions,
+  createOAuthMiddleware,
+  createProtectedResourceMetadataHandler,
+  createScopeMiddleware,
+  createTokenVerifier,
+  getAuthContext,
+  scopesSupportedBy,
+} from './auth.js';
+import { scopeEventStore } from './events.js';
+import { guardServer } from './guard.js';
+import { McpMetrics, countMcpRequests } from './metrics.js';
+import { RateLimitOptions, createRateLimiter } from './ratelimit.js';
+import { ClientRegistrationOptions, createClientRegistrationHandler } from './registration.js';
+import {
+  SessionManager,
+  SessionManagerOptions,
+  SessionRecord,
+  createSessionManager,
+  restoreInitializedSession,
+  sessionOwnerOf,
+} from './sessions.js';
+
+export interface McpAuthOptions extends Omit<TokenVerifierOptions, 'audiences'> {
+  // Public base URL of the app as clients reach it (including any mount path); the MCP endpoint is `${serverUrl}/mcp`
+  serverUrl: string;
+  // Accepted `aud` values; defaults to the MCP endpoint URL
+  audiences?: string[];
+  // Scopes and roles required per tool, resource and prompt; anything not listed only requires a valid token
+  accessPolicy?: AccessPolicy;
+  // Authorization servers listed in protected resource metadata; defaults to the trusted issuers
+  authorizationServers?: string[];
+}
+
+export interface McpAppOptions {
+  // Name and version reported to clients, and SDK options such as extra capabilities
+  serverInfo: Implementation;
+  serverOptions?: ServerOptions;
+  // Registers the tools, resources and prompts of a new session's server; receives the caller that initialized it
+  register: (server: McpServer, owner: AuthContext) => void;
+  auth: McpAuthOptions;
+  sessions?: Omit<SessionManagerOptions, 'restore' | 'audit'>;
+  // Handle every POST on its own, without sessions; GET and DELETE return 405
+  stateless?: boolean;
+  // Enables resumability: SSE events are stored so a client reconnecting with Last-Event-ID receives what it missed.
+  // Share it between instances together with a shared session store.
+  eventStore?: EventStore;
+  // Enables RFC 7591 dynamic client registration at /register, and RFC 7592 client configuration at /register/<client_id>
+  registration?: Omit<ClientRegistrationOptions, 'registrationUrl'>;
+  // Browser origins allowed to call the app (default any)
+  corsOrigins?: string[];
+  // Structured audit log of authentication decisions, sessions and invocations
+  audit?: AuditLogger;
+  // Prometheus metrics for token verification, sessions and MCP traffic; serve metrics.registry.render() where you like
+  metrics?: McpMetrics;
+  // Per-user/client request and tool call limits, and a per-IP limit on failed authentication (default off)
+  rateLimit?: Omit<RateLimitOptions, 'audit' | 'metrics'>;
+}
+
+export interface McpApp {
+  // Serves /mcp and the discovery routes; mount it on an existing app or listen on it directly
+  app: express.Express;
+  sessions: SessionManager;
+  verifier: TokenVerifier;
+  resourceUrl: string;
+  resourceMetadataUrl: string;
+  audiences: string[];
+  // Discover the trusted issuers up front; throws if none is reachable
+  initialize(): Promise<void>;
+  // Close every open session
+  close(): Promise<void>;
+}
+
+const EMPTY_POLICY: AccessPolicy = { tools: {}, resources: {}, prompts: {} };
+
+// Stands in for optional middleware so every route lists the same chain
+const skip: express.RequestHandler = (req, res, next) => next();
+
+// Express app serving an OAuth-protected MCP endpoint with per-user sessions
+export function createMcpApp(options: McpAppOptions): McpApp {
+  const { auth } = options;
+  const resourceUrl = `${auth.serverUrl}/mcp`;
+  const resourceMetadataUrl = `${auth.serverUrl}/.well-known/oauth-protected-resource`;
+  const registrationUrl = `${auth.serverUrl}/register`;
+  const audiences = auth.audiences?.length ? auth.audiences : [resourceUrl];
+  const accessPolicy = auth.accessPolicy ?? EMPTY_POLICY;
+
+  const { audit, metrics } = options;
+  const verifier = createTokenVerifier({ ...auth, audiences, metrics });
+  const sessions = createSessionManager({ ...options.sessions, restore: restoreSession, audit });
+  metrics?.registry.onCollect(() => metrics.activeSessions.set(undefined, sessions.size));
+  const rateLimiter = options.rateLimit ? createRateLimiter({ ...options.rateLimit, audit, metrics }) : undefined;
+  const oauthMiddleware = createOAuthMiddleware({ verifier, resourceMetadataUrl, audit, limitFailures: rateLimiter?.limitFailures });
+  const scopeMiddleware = createScopeMiddleware({ resourceMetadataUrl, accessPolicy, audit });
+  const limitAuthenticated = rateLimiter?.authenticated ?? skip;
+
+  const app = express();
+
+  // CORS is required for browser-based MCP clients; all origins are allowed unless restricted
+  const corsOrigins = options.corsOrigins ?? ['*'];
+  app.use(cors({
+    origin: corsOrigins.includes('*') ? '*' : corsOrigins,
+    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'Accept'],
+    exposedHeaders: ['mcp-session-id', 'WWW-Authenticate', 'Retry-After'],
+  }));
+
+  app.use(express.json());
+
+  app.get('/.well-known/oauth-protected-resource', createProtectedResourceMetadataHandler({
+    resource: resourceUrl,
+    authorizationServers: auth.authorizationServers ?? auth.trustedIssuers,
+    scopesSupported: scopesSupportedBy(accessPolicy),
+    registrationEndpoint: options.registration ? registrationUrl : undefined,
+  }));
+
+  if (options.registration) {
+    app.use('/register', rateLimiter?.registrations ?? skip, createClientRegistrationHandler({ ...options.registration, registrationUrl }));
+  }
+
+  // Each session gets its own MCP server, so per-session state stays isolated. It is guarded before anything is
+  // registered, so auditing and metrics cover every tool, resource and prompt, and what is enabled follows the token of
+  // each incoming message: a client that steps up its scopes within a session can use what they grant right away.
+  async function connectServer(user: AuthContext, transport: StreamableHTTPServerTransport): Promise<McpServer> {
+    const server = new McpServer(options.serverInfo, options.serverOptions);
+    const guard = guardServer(server, { accessPolicy, audit, metrics });
+    options.register(server, user);
+    guard.authorize(user);
+    await server.connect(transport);
+
+    const receive = transport.onmessage;
+    transport.onmessage = (message, extra) => {
+      if (extra?.authInfo) {
+        guard.authorize(getAuthContext(extra));
+      }
+      receive?.(message, extra);
+    };
+    return server;
+  }
+
+  // Transport for a session (or a single stateless request) that drops the session when it closes on its own
+  function createTransport(sessionId: string | undefined): StreamableHTTPServerTransport {
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: sessionId ? () => sessionId : undefined,
+      // Scoped so a Last-Event-ID from one session can't replay another session's events
+      eventStore: sessionId && options.eventStore ? scopeEventStore(options.eventStore, sessionId) : undefined,
+    });
+    transport.onclose = () => {
+      if (sessionId) {
+        sessions.remove(sessionId).then((removed) => removed && console.log(`Session closed: ${sessionId}`)).catch((error) => {
+          console.error(`Failed to remove session ${sessionId}:`, error);
+        });
+      }
+    };
+    return transport;
+  }
+
+  // Rebuild a session another instance created; the client already initialized it there
+  async function restoreSession(record: SessionRecord, user: AuthContext) {
+    const transport = createTransport(record.sessionId);
+    const server = await connectServer(user, transport);
+    restoreInitializedSession(server, transport, record);
+    return { server, transport };
+  }
+
+  // Stateless mode: a fresh server and transport per request, no session ID, nothing kept between requests
+  async function handleStatelessRequest(req: express.Request, res: express.Response) {
+    const transport = createTransport(undefined);
+    const server = await connectServer(getAuthContext({ authInfo: (req as any).auth }), transport);
+    res.on('close', () => {
+      server.close().catch((error) => console.error('Failed to close stateless server:', error));
+    });
+    await transport.handleRequest(req, res, req.body);
+  }
+
+  // MCP endpoint - POST for requests
+  app.post('/mcp', oauthMiddleware, limitAuthenticated, scopeMiddleware, async (req, res) => {
+    if (metrics) {
+      countMcpRequests(metrics, req.body);
+    }
+
+    if (options.stateless) {
+      return handleStatelessRequest(req, res);
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+    if (sessionId) {
+      const session = await sessions.findOwned(req, res, sessionId);
+      if (!session) {
+        return;
+      }
+      return session.transport.handleRequest(req, res, req.body);
+    }
+
+    // Only a single initialize request opens a session; anything else is refused before a server is built for it
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    if (messages.length !== 1 || !isInitializeRequest(messages[0])) {
+      return res.status(400).json({ error: 'Missing mcp-session-id header; only an initialize request opens a session' });
+    }
+
+    const user = getAuthContext({ authInfo: (req as any).auth });
+    const owner = sessionOwnerOf(user);
+
+    let hasCapacity: boolean;
+    try {
+      hasCapacity = await sessions.hasCapacity(user);
+    } catch (error) {
+      console.error(`Failed to count sessions for ${user.subject}:`, error instanceof Error ? error.message : error);
+      return res.status(503).json({ error: 'Session store unavailable' });
+    }
+    if (!hasCapacity) {
+      console.log(`Rejected new session for ${user.subject}: session limit reached`);
+      return res.status(429).json({
+        error: `Too many active sessions (limit ${sessions.maxPerUser}); close an existing session first`,
+      });
+    }
+
+    // Create new transport for this session, owned by the caller, and connect it to the session's MCP server
+    const newSessionId = crypto.randomUUID();
+    const transport = createTransport(newSessionId);
+    const server = await connectServer(user, transport);
+
+    // The session is stored before the transport sees the request, so a store failure is a 503 rather than
+    // an error inside the transport. Client details are kept so another instance can rebuild the session.
+    const { params } = messages[0];
+    const client = { protocolVersion: params.protocolVersion, capabilities: params.capabilities, info: params.clientInfo };
+    const now = new Date();
+    try {
+      await sessions.add(newSessionId, { server, transport, owner, createdAt: now, lastActivity: now, tokenExpiresAt: user.expiresAt }, client);
+    } catch (error) {
+      console.error(`Failed to store session ${newSessionId}:`, error instanceof Error ? error.message : error);
+      await server.close();
+      return res.status(503).json({ error: 'Session store unavailable' });
+    }
+
+    await transport.handleRequest(req, res, req.body);
+
+    // Rejected before initializing (e.g. a wrong Accept header): the session never started
+    if (!transport.sessionId) {
+      await sessions.close(newSessionId, 'initialization failed').catch((error) => {
+        console.error(`Failed to discard session ${newSessionId}:`, error instanceof Error ? error.message : error);
+      });
+      return;
+    }
+    console.log(`New session initialized: ${newSessionId} (owner: ${owner.subject})`);
+  });
+
+  // MCP endpoint - GET for SSE streaming (or replaying missed events after Last-Event-ID)
+  app.get('/mcp', oauthMiddleware, limitAuthenticated, async (req, res) => {
+    if (options.stateless) {
+      return res.status(405).set('Allow', 'POST').json({ error: 'This server is stateless; it has no SSE stream' });
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string;
+
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Missing mcp-session-id header' });
+    }
+
+    const session = await sessions.findOwned(req, res, sessionId);
+
+    if (!session) {
+      return;
+    }
+
+    await session.transport.handleRequest(req, res);
+  });
+
+  // MCP endpoint - DELETE for session termination
+  app.delete('/mcp', oauthMiddleware, limitAuthenticated, async (req, res) => {
+    if (options.stateless) {
+      return res.status(405).set('Allow', 'POST').json({ error: 'This server is stateless; there are no sessions to end' });
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string;
+
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Missing mcp-session-id header' });
+    }
+
+    const session = await sessions.findOwned(req, res, sessionId);
+
+    if (!session) {
+      return;
+    }
+
+    try {
+      await sessions.close(sessionId, 'client request');
+    } catch (error) {
+      console.error(`Failed to close session ${sessionId}:`, error instanceof Error ? error.message : error);
+      return res.status(503).json({ error: 'Session store unavailable' });
+    }
+
+    res.status(204).send();
+  });
+
+  return {
+    app,
+    sessions,
+    verifier,
+    resourceUrl,
+    resourceMetadataUrl,
+    audiences,
+    initialize: () => verifier.initialize(),
+    close: async () => {
+      await sessions.closeAll('server shutdown');
+      await rateLimiter?.close();
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import { appendFileSync, existsSync, mkdirSync, renameSync, statSync, unlinkSync } from 'fs';
+import { dirname } from 'path';
+import { createHash } from 'crypto';
+
+// Security-relevant events: who authenticated, which sessions they held and what they ran
+export type AuditEvent =
+  | { event: 'auth.success'; subject: string; clientId?: string; issuer?: string; method: string; path: string; ip?: string }
+  | { event: 'auth.failure'; reason: string; method: string; path: string; ip?: string }
+  | { event: 'access.denied'; subject: string; clientId?: string; method: string; target?: string; reason: string }
+  | {
+      event: 'rate.limited';
+      // requests and tool limits are per user and client; unauthenticated and registrations are per IP
+      limit: 'requests' | 'tool' | 'unauthenticated' | 'registrations';
+      subject?: string;
+      clientId?: string;
+      ip?: string;
+      target?: string;
+      retryAfter: number;
+    }
+  | { event: 'session.created'; sessionId: string; subject: string; clientId?: string; issuer?: string }
+  | { event: 'session.terminated'; sessionId: string; subject: string; reason: string }
+  | {
+      event: 'mcp.invoked';
+      kind: 'tool' | 'resource' | 'prompt';
+      name: string;
+      sessionId?: string;
+      subject?: string;
+      clientId?: string;
+      // SHA-256 of the canonical JSON arguments, so calls can be correlated without logging their content
+      argumentsHash?: string;
+      durationMs: number;
+      outcome: 'success' | 'error';
+      error?: string;
+    };
+
+export type AuditRecord = AuditEvent & { timestamp: string };
+
+export interface AuditSink {
+  write(record: AuditRecord): void;
+  close?(): Promise<void>;
+}
+
+export interface AuditLogger {
+  log(event: AuditEvent): void;
+  close(): Promise<void>;
+}
+
+const SECRET_KEY = /token|secret|password|authorization|cookie|api[-_]?key|credential/i;
+const CREDENTIAL = /\b(Bearer|Basic)\s+[\w\-.~+/]+=*/gi;
+const JWT = /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g;
+
+// Replace values of secret-looking keys, and bearer credentials or JWTs inside strings
+export function redact(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value.replace(CREDENTIAL, '$1 [REDACTED]').replace(JWT, '[REDACTED]');
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, SECRET_KEY.test(key) ? '[REDACTED]' : redact(entry)])
+    );
+  }
+  return value;
+}
+
+// JSON with sorted object keys, so equal arguments always hash the same
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, entry]) => entry !== undefined).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function hashArguments(args: unknown): string | undefined {
+  return args === undefined ? undefined : createHash('sha256').update(canonicalJson(args)).digest('hex');
+}
+
+export function createAuditLogger(sinks: AuditSink[]): AuditLogger {
+  return {
+    log(event) {
+      const record = redact({ timestamp: new Date().toISOString(), ...event }) as AuditRecord;
+      for (const sink of sinks) {
+        // Auditing must never break the request being audited
+        try {
+          sink.write(record);
+        } catch (error) {
+          console.error('Failed to write audit record:', error instanceof Error ? error.message : error);
+        }
+      }
+    },
+    async close() {
+      await Promise.allSettled(sinks.map((sink) => sink.close?.()));
+    },
+  };
+}
+
+// One JSON object per line on stdout
+export function createStdoutSink(): AuditSink {
+  return {
+    write(record) {
+      process.stdout.write(`${JSON.stringify(record)}\n`);
+    },
+  };
+}
+
+export interface FileSinkOptions {
+  path: string;
+  // Rotate once the file would grow past this size (bytes)
+  maxBytes?: number;
+  // Rotated files kept as <path>.1 (newest) to <path>.<maxFiles>
+  maxFiles?: number;
+}
+
+// JSON lines appended to a file readable only by the server's user, rotated by size
+export function createFileSink(options: FileSinkOptions): AuditSink {
+  const maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+  const maxFiles = options.maxFiles ?? 5;
+
+  mkdirSync(dirname(options.path), { recursive: true });
+  let size = existsSync(options.path) ? statSync(options.path).size : 0;
+
+  function rotate() {
+    if (maxFiles === 0) {
+      unlinkSync(options.path);
+    } else {
+      for (let i = maxFiles - 1; i >= 1; i--) {
+        if (existsSync(`${options.path}.${i}`)) {
+          renameSync(`${options.path}.${i}`, `${options.path}.${i + 1}`);
+        }
+      }
+      renameSync(options.path, `${options.path}.1`);
+    }
+    size = 0;
+  }
+
+  return {
+    write(record) {
+      const line = `${JSON.stringify(record)}\n`;
+      const bytes = Buffer.byteLength(line);
+      if (size > 0 && size + bytes > maxBytes) {
+        rotate();
+      }
+      appendFileSync(options.path, line, { mode: 0o600 });
+      size += bytes;
+    },
+  };
+}
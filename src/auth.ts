@@ -0,0 +1,739 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import * as jose from 'jose';
+import { createHash } from 'crypto';
+import { AuditLogger } from './audit.js';
+import { McpMetrics } from './metrics.js';
+
+export type TokenValidationMode = 'jwks' | 'introspection' | 'jwks+introspection';
+
+// Authorization requirements for a tool, resource or prompt. The caller must hold every listed scope and role.
+export interface AccessRequirement {
+  scopes?: string[];
+  realmRoles?: string[];
+  clientRoles?: Record<string, string[]>;
+}
+
+export interface AccessPolicy {
+  tools: Record<string, AccessRequirement>;
+  resources: Record<string, AccessRequirement>; // keyed by resource URI
+  prompts: Record<string, AccessRequirement>;
+}
+
+// Scopes and roles granted by an access token
+export interface Grants {
+  scopes: string[];
+  realmRoles: string[];
+  clientRoles: Record<string, string[]>;
+}
+
+// Authenticated caller, available to MCP handlers via getAuthContext(extra)
+export interface AuthContext extends Grants {
+  subject: string;
+  username?: string;
+  email?: string;
+  name?: string;
+  clientId?: string;
+  issuer?: string;
+  expiresAt?: number;
+}
+
+// RFC 7662 introspection response; Keycloak includes the token's claims when it is active
+interface IntrospectionResponse extends jose.JWTPayload {
+  active: boolean;
+}
+
+// OpenID Connect discovery / RFC 8414 authorization server metadata (only the fields we use)
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  jwks_uri: string;
+  introspection_endpoint?: string;
+  [key: string]: unknown;
+}
+
+interface TrustedIssuer {
+  metadata: AuthorizationServerMetadata;
+  jwks: jose.JWTVerifyGetKey;
+}
+
+export interface TokenVerifierOptions {
+  // Issuers whose tokens are accepted
+  trustedIssuers: string[];
+  // RFC 8707: accepted `aud` values, normally the resource URL advertised in protected resource metadata
+  audiences: string[];
+  // Reject tokens for another audience or client (default true); when false, mismatches are logged and accepted
+  strictAudience?: boolean;
+  // Optional allowlist of `azp` values (client IDs) allowed to call this server
+  allowedClients?: string[];
+  // 'jwks' verifies signatures locally, 'introspection' asks the issuer about every token (RFC 7662),
+  // 'jwks+introspection' verifies locally first and then checks the token has not been revoked
+  mode?: TokenValidationMode;
+  // Client credentials for the introspection endpoint
+  clientId?: string;
+  clientSecret?: string;
+  // How long introspection results are reused (seconds)
+  introspectionCacheTtl?: number;
+  introspectionCacheMaxEntries?: number;
+  // Give up on discovery, JWKS and introspection requests to an issuer after this long (seconds, default 10)
+  requestTimeout?: number;
+  // After discovery fails, tokens naming the issuer are rejected without retrying for this long (seconds, default 10)
+  discoveryRetryDelay?: number;
+  // Counts verifications and times JWKS fetches
+  metrics?: McpMetrics;
+}
+
+// Why a token was rejected, coarse enough to use as a metric label
+export type TokenRejectionReason =
+  | 'expired'
+  | 'invalid_signature'
+  | 'invalid_claims'
+  | 'malformed'
+  | 'untrusted_issuer'
+  | 'issuer_unavailable'
+  | 'inactive'
+  | 'wrong_audience'
+  | 'client_not_allowed'
+  | 'invalid_token';
+
+export interface TokenVerificationResult {
+  valid: boolean;
+  payload?: jose.JWTPayload;
+  error?: string;
+  reason?: TokenRejectionReason;
+}
+
+// Outcome of the most recent attempt to load a trusted issuer
+export interface IssuerStatus {
+  issuer: string;
+  ok: boolean;
+  error?: string;
+  // Signing keys published at jwks_uri (not fetched in introspection mode); kept from the last success when a check fails
+  keys?: number;
+  checkedAt: string;
+  // Last time the issuer passed; its keys stay cached and keep verifying tokens after a failed check
+  lastSuccessAt?: string;
+}
+
+export interface TokenVerifier {
+  verify(token: string): Promise<TokenVerificationResult>;
+  // Fetch discovery metadata and JWKS for every trusted issuer; failures are reported, not thrown
+  check(): Promise<IssuerStatus[]>;
+  // Latest status per trusted issuer, updated by check() and as failed issuers are retried on first use
+  status(): IssuerStatus[];
+  // Run the check and throw if no trusted issuer is usable
+  initialize(): Promise<void>;
+}
+
+export async function discoverIssuer(issuer: string, options: { timeout?: number } = {}): Promise<AuthorizationServerMetadata> {
+  // Milliseconds per candidate document
+  const timeout = options.timeout ?? 10000;
+  const url = new URL(issuer);
+  const path = url.pathname.replace(/\/$/, '');
+  const candidates = [
+    // OpenID Connect Discovery
+    `${url.origin}${path}/.well-known/openid-configuration`,
+    // RFC 8414: well-known segment is inserted before the issuer's path
+    `${url.origin}/.well-known/oauth-authorization-server${path}`,
+  ];
+
+  for (const candidate of candidates) {
+    let response;
+    try {
+      response = await fetch(candidate, { signal: AbortSignal.timeout(timeout) });
+    } catch (error) {
+      console.warn(`Could not fetch ${candidate}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+    if (!response.ok) {
+      continue;
+    }
+
+    const metadata = (await response.json()) as AuthorizationServerMetadata;
+    if (metadata.issuer !== issuer) {
+      throw new Error(`Issuer mismatch in ${candidate}: expected ${issuer}, got ${metadata.issuer}`);
+    }
+    if (!metadata.jwks_uri) {
+      throw new Error(`No jwks_uri in ${candidate}`);
+    }
+    return metadata;
+  }
+
+  throw new Error(`Could not discover authorization server metadata for ${issuer}`);
+}
+
+class UntrustedIssuerError extends Error {
+  readonly code = 'ERR_UNTRUSTED_ISSUER';
+}
+
+const JOSE_REJECTION_REASONS: Record<string, TokenRejectionReason> = {
+  ERR_UNTRUSTED_ISSUER: 'untrusted_issuer',
+  ERR_JWT_EXPIRED: 'expired',
+  ERR_JWS_SIGNATURE_VERIFICATION_FAILED: 'invalid_signature',
+  ERR_JWKS_NO_MATCHING_KEY: 'invalid_signature',
+  ERR_JWKS_MULTIPLE_MATCHING_KEYS: 'invalid_signature',
+  ERR_JWT_CLAIM_VALIDATION_FAILED: 'invalid_claims',
+  ERR_JWS_INVALID: 'malformed',
+  ERR_JWT_INVALID: 'malformed',
+  ERR_JOSE_NOT_SUPPORTED: 'malformed',
+  ERR_JOSE_ALG_NOT_ALLOWED: 'malformed',
+  ERR_JWKS_TIMEOUT: 'issuer_unavailable',
+  ERR_JWKS_INVALID: 'issuer_unavailable',
+  ERR_JOSE_GENERIC: 'issuer_unavailable',
+};
+
+function rejectionReason(error: unknown): TokenRejectionReason {
+  const code = (error as { code?: unknown } | undefined)?.code;
+  // Errors without a JOSE code come from discovery, JWKS or introspection requests
+  if (typeof code !== 'string') {
+    return 'issuer_unavailable';
+  }
+  return JOSE_REJECTION_REASONS[code] ?? 'invalid_token';
+}
+
+// Issuer claimed by a JWT, or undefined for opaque tokens
+function peekIssuer(token: string): string | undefined {
+  try {
+    return jose.decodeJwt(token).iss;
+  } catch {
+    return undefined;
+  }
+}
+
+// Token verification against the token's (trusted) issuer
+export function createTokenVerifier(options: TokenVerifierOptions): TokenVerifier {
+  const mode = options.mode ?? 'jwks';
+  const strictAudience = options.strictAudience ?? true;
+  const allowedClients = options.allowedClients ?? [];
+  const cacheTtl = options.introspectionCacheTtl ?? 30;
+  const cacheMaxEntries = options.introspectionCacheMaxEntries ?? 10000;
+  const requestTimeout = (options.requestTimeout ?? 10) * 1000;
+  const discoveryRetryDelay = (options.discoveryRetryDelay ?? 10) * 1000;
+
+  if (!['jwks', 'introspection', 'jwks+introspection'].includes(mode)) {
+    throw new Error(`Invalid token validation mode: ${mode}`);
+  }
+  if (options.trustedIssuers.length === 0) {
+    throw new Error('At least one trusted issuer is required');
+  }
+
+  // Discovered issuers, keyed by issuer identifier
+  const trustedIssuers = new Map<string, TrustedIssuer>();
+  // Loads in progress, shared by the requests waiting on them
+  const pendingIssuers = new Map<string, Promise<TrustedIssuer>>();
+  // Issuers whose last load failed, so tokens naming a down issuer don't each trigger discovery again
+  const failedIssuers = new Map<string, { error: unknown; retryAt: number }>();
+
+  // Introspection results keyed by token hash, so raw tokens are never kept in memory
+  const introspectionCache = new Map<string, { response: IntrospectionResponse; expiresAt: number }>();
+
+  const statuses = new Map<string, IssuerStatus>(
+    options.trustedIssuers.map((issuer) => [issuer, { issuer, ok: false, error: 'Not checked yet', checkedAt: new Date().toISOString() }])
+  );
+
+  options.metrics?.registry.onCollect(() => {
+    for (const status of statuses.values()) {
+      options.metrics!.issuerUp.set({ issuer: status.issuer }, status.ok ? 1 : 0);
+    }
+  });
+
+  function recordJwksFetch(issuer: string, started: number, ok: boolean) {
+    options.metrics?.jwksFetchDuration.observe({ issuer }, (performance.now() - started) / 1000);
+    if (!ok) {
+      options.metrics?.jwksFetchFailures.inc({ issuer });
+    }
+  }
+
+  // Fetch the JWKS once so a missing or empty key set shows up at startup rather than on the first request
+  async function countSigningKeys(issuer: string, jwksUri: string): Promise<number> {
+    const started = performance.now();
+    try {
+      const response = await fetch(jwksUri, { signal: AbortSignal.timeout(requestTimeout) });
+      if (!response.ok) {
+        throw new Error(`JWKS request failed: ${response.status} ${response.statusText}`);
+      }
+      const { keys } = (await response.json()) as { keys?: unknown[] };
+      if (!Array.isArray(keys) || keys.length === 0) {
+        throw new Error(`No signing keys at ${jwksUri}`);
+      }
+      recordJwksFetch(issuer, started, true);
+      return keys.length;
+    } catch (error) {
+      recordJwksFetch(issuer, started, false);
+      throw error;
+    }
+  }
+
+  // jose refetches the key set when its cache goes stale or a token names an unknown key; time those refetches
+  function instrumentedJwks(issuer: string, jwksUri: string): jose.JWTVerifyGetKey {
+    const remote = jose.createRemoteJWKSet(new URL(jwksUri), { timeoutDuration: requestTimeout });
+    return async (header, token) => {
+      // A successful refetch starts jose's cooldown, so a cooldown that began during this call means we fetched
+      const coolingDown = remote.coolingDown;
+      const started = performance.now();
+      try {
+        const key = await remote(header, token);
+        if (!coolingDown && remote.coolingDown) {
+          recordJwksFetch(issuer, started, true);
+        }
+        return key;
+      } catch (error) {
+        if (!coolingDown && remote.coolingDown) {
+          recordJwksFetch(issuer, started, true);
+        } else if (rejectionReason(error) === 'issuer_unavailable') {
+          recordJwksFetch(issuer, started, false);
+        }
+        throw error;
+      }
+    };
+  }
+
+  async function loadTrustedIssuer(issuer: string): Promise<TrustedIssuer> {
+    try {
+      const metadata = await discoverIssuer(issuer, { timeout: requestTimeout });
+      const keys = mode === 'introspection' ? undefined : await countSigningKeys(issuer, metadata.jwks_uri);
+      if (mode !== 'jwks' && !metadata.introspection_endpoint) {
+        throw new Error(`Issuer ${issuer} does not support token introspection`);
+      }
+
+      // Re-checks keep the cached key set unless the issuer moved its JWKS
+      const previous = trustedIssuers.get(issuer);
+      const jwks = previous?.metadata.jwks_uri === metadata.jwks_uri ? previous.jwks : instrumentedJwks(issuer, metadata.jwks_uri);
+      if (!previous) {
+        console.log(`Using JWKS for ${issuer}: ${metadata.jwks_uri}`);
+      }
+
+      const trusted = { metadata, jwks };
+      trustedIssuers.set(issuer, trusted);
+      failedIssuers.delete(issuer);
+      const now = new Date().toISOString();
+      statuses.set(issuer, { issuer, ok: true, keys, checkedAt: now, lastSuccessAt: now });
+      return trusted;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const { keys, lastSuccessAt } = statuses.get(issuer) ?? {};
+      statuses.set(issuer, { issuer, ok: false, error: message, keys, checkedAt: new Date().toISOString(), lastSuccessAt });
+      failedIssuers.set(issuer, { error, retryAt: Date.now() + discoveryRetryDelay });
+      throw error;
+    }
+  }
+
+  async function getTrustedIssuer(issuer: string | undefined): Promise<TrustedIssuer> {
+    if (!issuer || !options.trustedIssuers.includes(issuer)) {
+      throw new UntrustedIssuerError(`Untrusted token issuer: ${issuer}`);
+    }
+    const trusted = trustedIssuers.get(issuer);
+    if (trusted) {
+      return trusted;
+    }
+    // check() still retries on its own schedule
+    const failed = failedIssuers.get(issuer);
+    if (failed && failed.retryAt > Date.now()) {
+      throw failed.error;
+    }
+
+    let pending = pendingIssuers.get(issuer);
+    if (!pending) {
+      pending = loadTrustedIssuer(issuer).finally(() => pendingIssuers.delete(issuer));
+      pendingIssuers.set(issuer, pending);
+    }
+    return pending;
+  }
+
+  async function introspectToken(token: string, issuer: TrustedIssuer): Promise<IntrospectionResponse> {
+    const cacheKey = createHash('sha256').update(token).digest('base64url');
+    const now = Date.now();
+    const cached = introspectionCache.get(cacheKey);
+    if (cached && cached.expiresAt > now) {
+      return cached.response;
+    }
+
+    if (!options.clientId || !options.clientSecret) {
+      throw new Error('Token introspection requires a client ID and secret');
+    }
+
+    const endpoint = issuer.metadata.introspection_endpoint;
+    if (!endpoint) {
+      throw new Error(`Issuer ${issuer.metadata.issuer} does not support token introspection`);
+    }
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${Buffer.from(`${encodeURIComponent(options.clientId)}:${encodeURIComponent(options.clientSecret)}`).toString('base64')}`,
+      },
+      body: new URLSearchParams({ token, token_type_hint: 'access_token' }),
+      signal: AbortSignal.timeout(requestTimeout),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token introspection failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result = (await response.json()) as IntrospectionResponse;
+
+    // Never cache past the token's own expiry
+    const ttl = Math.min(cacheTtl * 1000, result.exp ? result.exp * 1000 - now : Infinity);
+    if (ttl > 0) {
+      if (introspectionCache.size >= cacheMaxEntries) {
+        for (const [key, entry] of introspectionCache) {
+          if (entry.expiresAt <= now) {
+            introspectionCache.delete(key);
+          }
+        }
+        // Still full: drop the oldest entry
+        if (introspectionCache.size >= cacheMaxEntries) {
+          introspectionCache.delete(introspectionCache.keys().next().value!);
+        }
+      }
+      introspectionCache.set(cacheKey, { response: result, expiresAt: now + ttl });
+    }
+
+    return result;
+  }
+
+  async function verify(token: string): Promise<TokenVerificationResult> {
+    const result = await verifyToken(token);
+    options.metrics?.tokenVerifications.inc({ outcome: result.valid ? 'valid' : 'rejected', reason: result.reason ?? 'ok' });
+    return result;
+  }
+
+  async function verifyToken(token: string): Promise<TokenVerificationResult> {
+    try {
+      let payload: jose.JWTPayload;
+
+      if (mode === 'introspection') {
+        // Works for opaque tokens too (sent to the first trusted issuer); the issuer is the source of truth
+        const issuer = await getTrustedIssuer(peekIssuer(token) ?? options.trustedIssuers[0]);
+        const { active, ...claims } = await introspectToken(token, issuer);
+        if (!active) {
+          return { valid: false, reason: 'inactive', error: 'Token is not active' };
+        }
+        if (claims.iss !== issuer.metadata.issuer) {
+          return { valid: false, reason: 'untrusted_issuer', error: `Unexpected token issuer: ${claims.iss}` };
+        }
+        payload = claims;
+      } else {
+        // Pick the JWKS by the token's `iss`; jwtVerify then checks the claim against the same issuer
+        const issuer = await getTrustedIssuer(peekIssuer(token));
+        ({ payload } = await jose.jwtVerify(token, issuer.jwks, {
+          issuer: issuer.metadata.issuer,
+        }));
+
+        // Signature is valid, but the token may have been revoked (logout, session kill, disabled user)
+        if (mode === 'jwks+introspection' && !(await introspectToken(token, issuer)).active) {
+          return { valid: false, reason: 'inactive', error: 'Token is not active' };
+        }
+      }
+
+      // RFC 8707: the token must have been issued for this resource
+      const aud = payload.aud === undefined ? [] : Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      const azp = payload.azp as string | undefined;
+
+      if (!aud.some((a) => options.audiences.includes(a))) {
+        console.log('Token audience mismatch:', { aud, azp, expected: options.audiences });
+        if (strictAudience) {
+          return { valid: false, reason: 'wrong_audience', error: 'Token audience does not include this resource' };
+        }
+      }
+
+      if (allowedClients.length > 0 && (!azp || !allowedClients.includes(azp))) {
+        console.log('Token issued to a client that is not allowed:', { azp, allowed: allowedClients });
+        if (strictAudience) {
+          return { valid: false, reason: 'client_not_allowed', error: 'Token was not issued to an allowed client' };
+        }
+      }
+
+      return { valid: true, payload };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Token verification failed:', errorMessage);
+      return { valid: false, reason: rejectionReason(error), error: errorMessage };
+    }
+  }
+
+  async function check(): Promise<IssuerStatus[]> {
+    const results = await Promise.allSettled(options.trustedIssuers.map((issuer) => loadTrustedIssuer(issuer)));
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(`Failed to initialize issuer ${options.trustedIssuers[i]}:`, result.reason instanceof Error ? result.reason.message : result.reason);
+      }
+    });
+
+    return status();
+  }
+
+  function status(): IssuerStatus[] {
+    return [...statuses.values()];
+  }
+
+  async function initialize() {
+    if (!(await check()).some((issuer) => issuer.ok)) {
+      throw new Error('No trusted issuer could be initialized');
+    }
+  }
+
+  return { verify, check, status, initialize };
+}
+
+function extractGrants(payload: jose.JWTPayload): Grants {
+  const realmAccess = payload.realm_access as { roles?: string[] } | undefined;
+  const resourceAccess = (payload.resource_access ?? {}) as Record<string, { roles?: string[] }>;
+
+  return {
+    // `scope` is the standard space-delimited claim; some non-Keycloak IdPs use an `scp` array instead
+    scopes: typeof payload.scope === 'string'
+      ? payload.scope.split(' ').filter(Boolean)
+      : Array.isArray(payload.scp) ? (payload.scp as string[]) : [],
+    realmRoles: realmAccess?.roles ?? [],
+    clientRoles: Object.fromEntries(
+      Object.entries(resourceAccess).map(([client, access]) => [client, access.roles ?? []])
+    ),
+  };
+}
+
+export function buildAuthContext(payload: jose.JWTPayload): AuthContext {
+  return {
+    ...extractGrants(payload),
+    subject: payload.sub ?? '',
+    username: payload.preferred_username as string | undefined,
+    email: payload.email as string | undefined,
+    name: payload.name as string | undefined,
+    clientId: payload.azp as string | undefined,
+    issuer: payload.iss,
+    expiresAt: payload.exp,
+  };
+}
+
+// Read the caller's identity inside a tool, resource or prompt handler
+export function getAuthContext(extra: { authInfo?: AuthInfo }): AuthContext {
+  const context = extra.authInfo?.extra?.context as AuthContext | undefined;
+  if (!context) {
+    throw new Error('Request is not authenticated');
+  }
+  return context;
+}
+
+// Returns the parts of the requirement the grants do not satisfy, or undefined if access is allowed
+export function findMissingAccess(grants: Grants, requirement: AccessRequirement | undefined): AccessRequirement | undefined {
+  if (!requirement) {
+    return undefined;
+  }
+
+  const scopes = (requirement.scopes ?? []).filter((scope) => !grants.scopes.includes(scope));
+  const realmRoles = (requirement.realmRoles ?? []).filter((role) => !grants.realmRoles.includes(role));
+  const clientRoles = Object.fromEntries(
+    Object.entries(requirement.clientRoles ?? {})
+      .map(([client, roles]) => [client, roles.filter((role) => !(grants.clientRoles[client] ?? []).includes(role))])
+      .filter(([, roles]) => roles.length > 0)
+  );
+
+  if (scopes.length === 0 && realmRoles.length === 0 && Object.keys(clientRoles).length === 0) {
+    return undefined;
+  }
+
+  return { scopes, realmRoles, clientRoles };
+}
+
+function describeMissingAccess(missing: AccessRequirement): string {
+  const parts: string[] = [];
+  if (missing.scopes?.length) {
+    parts.push(`scopes: ${missing.scopes.join(' ')}`);
+  }
+  if (missing.realmRoles?.length) {
+    parts.push(`realm roles: ${missing.realmRoles.join(', ')}`);
+  }
+  for (const [client, roles] of Object.entries(missing.clientRoles ?? {})) {
+    parts.push(`${client} roles: ${roles.join(', ')}`);
+  }
+  return `Missing required ${parts.join('; ')}`;
+}
+
+// Look up the requirement for a JSON-RPC request that invokes a tool, reads a resource or gets a prompt
+function requirementForRequest(
+  policy: AccessPolicy,
+  message: { method?: string; params?: Record<string, unknown> }
+): AccessRequirement | undefined {
+  switch (message.method) {
+    case 'tools/call':
+      return policy.tools[message.params?.name as string];
+    case 'resources/read':
+      return policy.resources[message.params?.uri as string];
+    case 'prompts/get':
+      return policy.prompts[message.params?.name as string];
+    default:
+      return undefined;
+  }
+}
+
+// Scopes to advertise in protected resource metadata: the OIDC basics plus every scope the policy requires
+export function scopesSupportedBy(policy: AccessPolicy): string[] {
+  return [
+    'openid',
+    'profile',
+    'email',
+    ...new Set(
+      [policy.tools, policy.resources, policy.prompts]
+        .flatMap((requirements) => Object.values(requirements))
+        .flatMap((requirement) => requirement.scopes ?? [])
+    ),
+  ];
+}
+
+// Build a Bearer challenge (RFC 6750 section 3), escaping quoted-string values
+export function buildWwwAuthenticate(params: Record<string, string | undefined>): string {
+  const attributes = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${value!.replace(/["\\]/g, '\\$&')}"`);
+  return `Bearer ${attributes.join(', ')}`;
+}
+
+export type OAuthMiddlewareOptions = {
+  // Advertised in WWW-Authenticate challenges so clients can discover the authorization server (RFC 9728)
+  resourceMetadataUrl: string;
+  // Records auth.success and auth.failure events
+  audit?: AuditLogger;
+  // Called for every request that fails authentication before the 401 is sent; returns true if it responded
+  // itself, e.g. with the rate limiter's 429
+  limitFailures?: (req: Request, res: Response) => Promise<boolean>;
+} & ({ verifier: TokenVerifier } | TokenVerifierOptions);
+
+// OAuth middleware for protecting MCP endpoints
+export function createOAuthMiddleware(options: OAuthMiddlewareOptions): RequestHandler {
+  const verifier = 'verifier' in options ? options.verifier : createTokenVerifier(options);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const authHeader = req.headers.authorization;
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      options.audit?.log({ event: 'auth.failure', reason: 'Missing or invalid Authorization header', method: req.method, path: req.originalUrl, ip: req.ip });
+      if (await options.limitFailures?.(req, res)) {
+        return;
+      }
+      // Return 401 with WWW-Authenticate header per MCP spec
+      res.set('WWW-Authenticate', buildWwwAuthenticate({ resource_metadata: options.resourceMetadataUrl }));
+      res.status(401).json({
+        error: 'unauthorized',
+        error_description: 'Missing or invalid Authorization header'
+      });
+      return;
+    }
+
+    const token = authHeader.substring(7);
+    const result = await verifier.verify(token);
+
+    if (!result.valid) {
+      options.audit?.log({ event: 'auth.failure', reason: result.error ?? 'Invalid token', method: req.method, path: req.originalUrl, ip: req.ip });
+      if (await options.limitFailures?.(req, res)) {
+        return;
+      }
+      res.set('WWW-Authenticate', buildWwwAuthenticate({
+        resource_metadata: options.resourceMetadataUrl,
+        error: 'invalid_token',
+        error_description: result.error,
+      }));
+      res.status(401).json({
+        error: 'invalid_token',
+        error_description: result.error
+      });
+      return;
+    }
+
+    // Attach user info to request
+    (req as any).user = result.payload;
+
+    // The SDK transport forwards `req.auth` to every handler as `extra.authInfo`
+    const context = buildAuthContext(result.payload!);
+    const auth: AuthInfo = {
+      token,
+      clientId: context.clientId ?? '',
+      scopes: context.scopes,
+      expiresAt: context.expiresAt,
+      extra: { context },
+    };
+    (req as any).auth = auth;
+    options.audit?.log({
+      event: 'auth.success',
+      subject: context.subject,
+      clientId: context.clientId,
+      issuer: context.issuer,
+      method: req.method,
+      path: req.originalUrl,
+      ip: req.ip,
+    });
+    next();
+  };
+}
+
+export interface ScopeMiddlewareOptions {
+  resourceMetadataUrl: string;
+  accessPolicy: AccessPolicy;
+  // Records access.denied events
+  audit?: AuditLogger;
+}
+
+// Reject tool calls, resource reads and prompt gets the token is not authorized for (MCP authorization spec, 403 insufficient_scope).
+// Must run after the OAuth middleware.
+export function createScopeMiddleware(options: ScopeMiddlewareOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const user = getAuthContext({ authInfo: (req as any).auth });
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+
+    for (const message of messages) {
+      const requirement = requirementForRequest(options.accessPolicy, message ?? {});
+      const missing = findMissingAccess(user, requirement);
+      if (!missing) {
+        continue;
+      }
+
+      const description = describeMissingAccess(missing);
+      options.audit?.log({
+        event: 'access.denied',
+        subject: user.subject,
+        clientId: user.clientId,
+        method: message.method,
+        target: (message.params?.name ?? message.params?.uri) as string | undefined,
+        reason: description,
+      });
+      res.set('WWW-Authenticate', buildWwwAuthenticate({
+        resource_metadata: options.resourceMetadataUrl,
+        error: 'insufficient_scope',
+        error_description: description,
+        // Request the full set so a step-up authorization yields a token that satisfies the requirement
+        scope: requirement!.scopes?.length ? requirement!.scopes.join(' ') : undefined,
+      }));
+      res.status(403).json({
+        error: 'insufficient_scope',
+        error_description: description,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+export interface ProtectedResourceMetadataOptions {
+  // Resource identifier, i.e. the MCP endpoint URL
+  resource: string;
+  authorizationServers: string[];
+  scopesSupported?: string[];
+  resourceDocumentation?: string;
+  // Dynamic client registration endpoint for the listed authorization servers, advertised as an extension parameter
+  registrationEndpoint?: string;
+}
+
+// RFC 9728: Protected Resource Metadata endpoint
+export function createProtectedResourceMetadataHandler(options: ProtectedResourceMetadataOptions): RequestHandler {
+  return (req, res) => {
+    res.json({
+      resource: options.resource,
+      authorization_servers: options.authorizationServers,
+      scopes_supported: options.scopesSupported,
+      bearer_methods_supported: ['header'],
+      resource_documentation: options.resourceDocumentation ?? 'https://modelcontextprotocol.io/specification/draft/basic/authorization',
+      registration_endpoint: options.registrationEndpoint,
+    });
+  };
+}
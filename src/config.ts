@@ -0,0 +1,387 @@
+import { readFileSync } from 'fs';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+
+// Configuration comes from built-in defaults, then an optional JSON/YAML file (MCP_CONFIG_FILE or --config),
+// then environment variables. Every value is validated before the server starts.
+
+const port = z.coerce.number().int().min(1).max(65535);
+const seconds = z.coerce.number().int().min(0);
+
+// Env values arrive as strings; file values may already be booleans or lists
+const boolean = z.preprocess((value) => (value === 'true' ? true : value === 'false' ? false : value), z.boolean());
+const count = z.coerce.number().int().min(0);
+// `name=value,name=value` from env, or a mapping from the file
+const counts = z.preprocess(
+  (value) =>
+    typeof value === 'string'
+      ? Object.fromEntries(value.split(',').filter((entry) => entry.trim()).map((entry) => entry.split('=').map((part) => part.trim())))
+      : value,
+  z.record(z.string().min(1), count)
+);
+// Express `trust proxy`: true/false, a number of hops, or addresses and subnets (e.g. `loopback,10.0.0.0/8`)
+const trustProxy = z.preprocess((value) => {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (value === 'true' || value === 'false') {
+    return value === 'true';
+  }
+  return /^\d+$/.test(value) ? Number(value) : value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}, z.union([z.boolean(), z.number().int().min(0), z.array(z.string().min(1))]));
+const list = <T extends z.ZodType>(item: T) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((entry) => entry.trim()).filter(Boolean) : value),
+    z.array(item)
+  );
+
+const ConfigSchema = z
+  .object({
+    port: port.default(3001),
+    // Interface to listen on (all interfaces by default)
+    host: z.string().min(1).optional(),
+    // Public base URL; defaults to http(s)://localhost:<port>
+    mcpServerUrl: z.url().optional(),
+    // Reverse proxies whose X-Forwarded-For is trusted for the client IP; off, so the IP is the TCP peer
+    trustProxy: trustProxy.default(false),
+    keycloak: z
+      .object({
+        baseUrl: z.url().default('http://localhost:8080'),
+        realm: z.string().min(1).default('mcp-demo'),
+        clientId: z.string().min(1).default('mcp-server'),
+        clientSecret: z.string().default(''),
+      })
+      .strict()
+      .prefault({}),
+    auth: z
+      .object({
+        // RFC 8707: only accept tokens minted for this resource (false logs and accepts instead)
+        strictAudience: boolean.default(true),
+        // Accepted `aud` values; defaults to the resource URL advertised in protected resource metadata
+        audiences: list(z.string().min(1)).default([]),
+        // Optional allowlist of `azp` values (client IDs) allowed to call this server
+        allowedClients: list(z.string().min(1)).default([]),
+        // Issuers whose tokens are accepted; defaults to the configured Keycloak realm
+        trustedIssuers: list(z.url()).default([]),
+        // Give up on discovery, JWKS and introspection requests to an issuer after this long (seconds)
+        requestTimeout: seconds.min(1).default(10),
+        // How long tokens naming an issuer whose discovery failed are rejected before discovery is retried (seconds)
+        discoveryRetryDelay: seconds.default(10),
+      })
+      .strict()
+      .prefault({}),
+    introspection: z
+      .object({
+        // 'jwks' verifies signatures locally, 'introspection' asks Keycloak about every token (RFC 7662),
+        // 'jwks+introspection' verifies locally first and then checks the token has not been revoked
+        mode: z.enum(['jwks', 'introspection', 'jwks+introspection']).default('jwks'),
+        // How long introspection results are reused (seconds)
+        cacheTtl: seconds.default(30),
+        cacheMaxEntries: z.coerce.number().int().min(1).default(10000),
+      })
+      .strict()
+      .prefault({}),
+    registration: z
+      .object({
+        // RFC 7591 Dynamic Client Registration backed by the Keycloak admin API (uses the server client's service account)
+        enabled: boolean.default(false),
+        // Redirect URIs registered clients may use; a pattern without a path allows any path, and `*` may only stand for the port
+        redirectUriPatterns: list(
+          z.string().min(1).refine((pattern) => !pattern.replace(/:\*(?=[/?#]|$)/, '').includes('*'), {
+            message: '`*` may only stand for the port',
+          })
+        ).default([
+          'http://localhost:*',
+          'http://127.0.0.1:*',
+          'https://vscode.dev/redirect',
+          'cursor://anysphere.cursor-mcp/oauth/callback',
+        ]),
+        clientIdPrefix: z.string().min(1).default('mcp-dcr-'),
+      })
+      .strict()
+      .prefault({}),
+    sessions: z
+      .object({
+        // Close sessions with no requests for this long (seconds)
+        idleTimeout: seconds.min(1).default(1800),
+        // Hard cap on session age regardless of activity (seconds, 0 disables)
+        maxLifetime: seconds.default(86400),
+        // Concurrent sessions allowed per user (0 disables)
+        maxPerUser: z.coerce.number().int().min(0).default(10),
+        // How often expired sessions are swept (seconds)
+        sweepInterval: seconds.min(1).default(60),
+        // 'memory' keeps sessions in this process; 'redis' shares them so any instance behind a load balancer can serve them
+        store: z.enum(['memory', 'redis']).default('memory'),
+        // Store SSE events so clients can reconnect with Last-Event-ID (in Redis when the session store is)
+        resumable: boolean.default(false),
+        // How long a stream's events are kept for replay (seconds)
+        eventTtl: seconds.min(1).default(300),
+        // Serve every request on its own without sessions; nothing needs to be shared between instances
+        stateless: boolean.default(false),
+      })
+      .strict()
+      .prefault({}),
+    redis: z
+      .object({
+        // redis:// or rediss:// URL, with optional user, password and database, e.g. redis://:secret@redis:6379/0
+        url: z.url({ protocol: /^rediss?$/ }).optional(),
+        // Prepended to every key
+        prefix: z.string().default('mcp:'),
+      })
+      .strict()
+      .prefault({}),
+    cors: z
+      .object({
+        // Allowed browser origins; `*` allows any
+        origins: list(z.string().min(1)).default(['*']),
+      })
+      .strict()
+      .prefault({}),
+    tls: z
+      .object({
+        // PEM files; serve HTTPS when both are set
+        certFile: z.string().min(1).optional(),
+        keyFile: z.string().min(1).optional(),
+      })
+      .strict()
+      .prefault({})
+      .refine((tls) => !tls.certFile === !tls.keyFile, { message: 'certFile and keyFile must be set together' }),
+    audit: z
+      .object({
+        // Write audit events as JSON lines to stdout
+        stdout: boolean.default(true),
+        // Also append them to this file, rotated by size
+        file: z.string().min(1).optional(),
+        maxFileSize: z.coerce.number().int().min(1024).default(10 * 1024 * 1024),
+        // Rotated files kept next to the active one
+        maxFiles: z.coerce.number().int().min(0).default(5),
+      })
+      .strict()
+      .prefault({}),
+    rateLimit: z
+      .object({
+        enabled: boolean.default(true),
+        // Length of every limit's window (seconds)
+        window: seconds.min(1).default(60),
+        // Requests to /mcp per user and client per window (0 disables)
+        requests: count.default(300),
+        // Failed authentications per IP per window before further failures get 429 instead of 401 (0 disables)
+        unauthenticated: count.default(60),
+        // Calls to any one tool per user and client per window (0 disables)
+        toolCalls: count.default(0),
+        // Per-tool overrides of toolCalls
+        tools: counts.default({}),
+        // Dynamic client registrations per IP per window (0 disables)
+        registrations: count.default(10),
+      })
+      .strict()
+      .prefault({}),
+    health: z
+      .object({
+        // How often every trusted issuer's discovery document and JWKS are re-checked (seconds)
+        checkInterval: seconds.min(1).default(30),
+        // How long an issuer that fails its re-check stays ready on its cached keys (seconds, 0 disables)
+        maxStaleness: seconds.default(300),
+      })
+      .strict()
+      .prefault({}),
+    metrics: z
+      .object({
+        // Serve Prometheus metrics at /metrics
+        enabled: boolean.default(true),
+        // Require this bearer token to scrape /metrics
+        token: z.string().min(1).optional(),
+      })
+      .strict()
+      .prefault({}),
+    startup: z
+      .object({
+        // Exit if no trusted issuer passes the startup check instead of starting degraded
+        failFast: boolean.default(false),
+      })
+      .strict()
+      .prefault({}),
+  })
+  .strict()
+  .superRefine((config, ctx) => {
+    if (config.sessions.store === 'redis' && !config.redis.url) {
+      ctx.addIssue({ code: 'custom', path: ['redis', 'url'], message: 'required when sessions.store is "redis"' });
+    }
+    if (config.introspection.mode !== 'jwks' && !config.keycloak.clientSecret) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['keycloak', 'clientSecret'],
+        message: `required for token validation mode "${config.introspection.mode}"`,
+      });
+    }
+  });
+
+export type ServerConfig = z.infer<typeof ConfigSchema>;
+
+// Environment variable for each configuration path
+const ENV_VARS: Record<string, string> = {
+  MCP_PORT: 'port',
+  MCP_HOST: 'host',
+  MCP_SERVER_URL: 'mcpServerUrl',
+  MCP_TRUST_PROXY: 'trustProxy',
+  KEYCLOAK_URL: 'keycloak.baseUrl',
+  KEYCLOAK_REALM: 'keycloak.realm',
+  KEYCLOAK_CLIENT_ID: 'keycloak.clientId',
+  KEYCLOAK_CLIENT_SECRET: 'keycloak.clientSecret',
+  MCP_STRICT_AUDIENCE: 'auth.strictAudience',
+  MCP_AUDIENCES: 'auth.audiences',
+  MCP_ALLOWED_CLIENTS: 'auth.allowedClients',
+  MCP_TRUSTED_ISSUERS: 'auth.trustedIssuers',
+  MCP_ISSUER_TIMEOUT: 'auth.requestTimeout',
+  MCP_DISCOVERY_RETRY_DELAY: 'auth.discoveryRetryDelay',
+  MCP_TOKEN_VALIDATION: 'introspection.mode',
+  MCP_INTROSPECTION_CACHE_TTL: 'introspection.cacheTtl',
+  MCP_INTROSPECTION_CACHE_MAX_ENTRIES: 'introspection.cacheMaxEntries',
+  MCP_DCR_ENABLED: 'registration.enabled',
+  MCP_DCR_REDIRECT_URI_PATTERNS: 'registration.redirectUriPatterns',
+  MCP_SESSION_IDLE_TIMEOUT: 'sessions.idleTimeout',
+  MCP_SESSION_MAX_LIFETIME: 'sessions.maxLifetime',
+  MCP_MAX_SESSIONS_PER_USER: 'sessions.maxPerUser',
+  MCP_SESSION_SWEEP_INTERVAL: 'sessions.sweepInterval',
+  MCP_SESSION_STORE: 'sessions.store',
+  MCP_SESSION_RESUMABILITY: 'sessions.resumable',
+  MCP_SESSION_EVENT_TTL: 'sessions.eventTtl',
+  MCP_STATELESS: 'sessions.stateless',
+  MCP_REDIS_URL: 'redis.url',
+  MCP_REDIS_PREFIX: 'redis.prefix',
+  MCP_CORS_ORIGINS: 'cors.origins',
+  MCP_TLS_CERT: 'tls.certFile',
+  MCP_TLS_KEY: 'tls.keyFile',
+  MCP_AUDIT_STDOUT: 'audit.stdout',
+  MCP_AUDIT_FILE: 'audit.file',
+  MCP_AUDIT_MAX_FILE_SIZE: 'audit.maxFileSize',
+  MCP_AUDIT_MAX_FILES: 'audit.maxFiles',
+  MCP_RATE_LIMIT_ENABLED: 'rateLimit.enabled',
+  MCP_RATE_LIMIT_WINDOW: 'rateLimit.window',
+  MCP_RATE_LIMIT_REQUESTS: 'rateLimit.requests',
+  MCP_RATE_LIMIT_UNAUTHENTICATED: 'rateLimit.unauthenticated',
+  MCP_RATE_LIMIT_TOOL_CALLS: 'rateLimit.toolCalls',
+  MCP_RATE_LIMIT_TOOLS: 'rateLimit.tools',
+  MCP_RATE_LIMIT_REGISTRATIONS: 'rateLimit.registrations',
+  MCP_HEALTH_CHECK_INTERVAL: 'health.checkInterval',
+  MCP_HEALTH_MAX_STALENESS: 'health.maxStaleness',
+  MCP_METRICS_ENABLED: 'metrics.enabled',
+  MCP_METRICS_TOKEN: 'metrics.token',
+  MCP_STARTUP_FAIL_FAST: 'startup.failFast',
+};
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid configuration:\n${issues.map((issue) => `  - ${issue}`).join('\n')}`);
+  }
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node[key] ??= {};
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function readConfigFile(path: string): Record<string, any> {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+  }
+
+  // YAML is a superset of JSON, so this handles both
+  let parsed: unknown;
+  try {
+    parsed = parseYaml(content);
+  } catch (error) {
+    throw new ConfigError([`${path}: ${error instanceof Error ? error.message : error}`]);
+  }
+  if (parsed == null) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new ConfigError([`${path}: expected a mapping of configuration sections`]);
+  }
+  return parsed as Record<string, any>;
+}
+
+// Config file named by --config or MCP_CONFIG_FILE, if any
+export function configFilePath(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const index = argv.indexOf('--config');
+  if (index !== -1) {
+    if (!argv[index + 1]) {
+      throw new ConfigError(['--config requires a path']);
+    }
+    return argv[index + 1];
+  }
+  return env.MCP_CONFIG_FILE || undefined;
+}
+
+// Load and validate the server configuration; throws ConfigError listing every problem
+export function loadConfig(options: { file?: string; env?: NodeJS.ProcessEnv } = {}): ServerConfig {
+  const env = options.env ?? process.env;
+  const raw = options.file ? readConfigFile(options.file) : {};
+
+  // Environment variables override the file; empty values count as unset
+  const sources = new Map<string, string>();
+  for (const [name, path] of Object.entries(ENV_VARS)) {
+    const value = env[name];
+    if (value) {
+      setPath(raw, path, value);
+      sources.set(path, name);
+    }
+  }
+
+  const result = ConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map((issue) => {
+        const path = issue.path.join('.') || '(root)';
+        // Issues inside a list or mapping belong to the variable that set the whole value
+        const source = [...sources].find(([prefix]) => path === prefix || path.startsWith(`${prefix}.`))?.[1] ?? options.file;
+        return `${path}${source ? ` (${source})` : ''}: ${issue.message}`;
+      })
+    );
+  }
+
+  return result.data;
+}
+
+// Settings that are valid but probably not what a production deployment wants
+export function diagnoseConfig(config: ServerConfig, serverUrl: string): string[] {
+  const warnings: string[] = [];
+
+  if (config.registration.enabled && !config.keycloak.clientSecret) {
+    warnings.push('Dynamic client registration is enabled but KEYCLOAK_CLIENT_SECRET is not set; registrations will fail');
+  }
+  if (config.registration.enabled && (!config.rateLimit.enabled || config.rateLimit.registrations === 0)) {
+    warnings.push('Dynamic client registration is not rate limited; anyone can create any number of clients in the realm');
+  }
+  if (!config.auth.strictAudience) {
+    warnings.push('Audience checks are not enforced (MCP_STRICT_AUDIENCE=false); tokens for other resources are accepted');
+  }
+  const { protocol, hostname } = new URL(serverUrl);
+  const local = ['localhost', '127.0.0.1', '[::1]'].includes(hostname);
+  if (protocol === 'http:' && !local) {
+    warnings.push(`Public server URL ${serverUrl} is not HTTPS; bearer tokens will travel in clear text`);
+  }
+  if (!config.audit.stdout && !config.audit.file) {
+    warnings.push('Audit logging is disabled (MCP_AUDIT_STDOUT=false and no MCP_AUDIT_FILE)');
+  }
+  if (config.sessions.stateless && (config.sessions.store !== 'memory' || config.sessions.resumable)) {
+    warnings.push('Stateless mode keeps no sessions; the session store and resumability settings are ignored');
+  }
+  if (config.metrics.enabled && !config.metrics.token && !local) {
+    warnings.push('/metrics is served without authentication (set MCP_METRICS_TOKEN or restrict it at the proxy)');
+  }
+  if (config.cors.origins.includes('*') && config.cors.origins.length > 1) {
+    warnings.push('CORS origins include "*", which makes the other entries redundant');
+  }
+
+  return warnings;
+}
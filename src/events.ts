@@ -0,0 +1,86 @@
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+export interface MemoryEventStoreOptions {
+  // Seconds a stream's events are kept after its last event (default 300)
+  ttl?: number;
+  // Most recent events kept per stream (default 1000)
+  maxEventsPerStream?: number;
+}
+
+// Single-process resumability: clients that reconnect with Last-Event-ID get the events they missed
+export function createMemoryEventStore(options: MemoryEventStoreOptions = {}): EventStore & { close(): void } {
+  const ttl = (options.ttl ?? 300) * 1000;
+  const maxEvents = options.maxEventsPerStream ?? 1000;
+  const streams = new Map<StreamId, { events: { sequence: number; message: JSONRPCMessage }[]; lastEventAt: number }>();
+  let sequence = 0;
+
+  // Event IDs are `<streamId>_<sequence>`; stream IDs may themselves contain underscores
+  const streamOf = (eventId: EventId) => eventId.slice(0, eventId.lastIndexOf('_'));
+  const sequenceOf = (eventId: EventId) => Number(eventId.slice(eventId.lastIndexOf('_') + 1));
+
+  const sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [streamId, stream] of streams) {
+      if (now - stream.lastEventAt > ttl) {
+        streams.delete(streamId);
+      }
+    }
+  }, Math.min(ttl, 60_000));
+  sweeper.unref();
+
+  return {
+    async storeEvent(streamId, message) {
+      let stream = streams.get(streamId);
+      if (!stream) {
+        stream = { events: [], lastEventAt: 0 };
+        streams.set(streamId, stream);
+      }
+      stream.events.push({ sequence: ++sequence, message });
+      if (stream.events.length > maxEvents) {
+        stream.events.shift();
+      }
+      stream.lastEventAt = Date.now();
+      return `${streamId}_${sequence}`;
+    },
+    async getStreamIdForEventId(eventId) {
+      const streamId = streamOf(eventId);
+      return eventId.includes('_') && streams.has(streamId) ? streamId : undefined;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const streamId = streamOf(lastEventId);
+      const after = sequenceOf(lastEventId);
+      for (const event of streams.get(streamId)?.events ?? []) {
+        // Priming events carry no message and aren't replayed
+        if (event.sequence > after && 'jsonrpc' in event.message) {
+          await send(`${streamId}_${event.sequence}`, event.message);
+        }
+      }
+      return streamId;
+    },
+    close() {
+      clearInterval(sweeper);
+      streams.clear();
+    },
+  };
+}
+
+// The SDK looks events up by ID alone; namespace one session's streams so its Last-Event-ID can't replay another's.
+// Relies on event IDs starting with their stream ID, as they do in both stores here.
+export function scopeEventStore(store: EventStore, sessionId: string): EventStore {
+  const prefix = `${sessionId}/`;
+  const owns = (eventId: EventId) => eventId.startsWith(prefix);
+  const unscoped = (streamId: StreamId | undefined) => (streamId?.startsWith(prefix) ? streamId.slice(prefix.length) : undefined);
+  const lookup = store.getStreamIdForEventId?.bind(store);
+
+  return {
+    storeEvent: (streamId, message) => store.storeEvent(`${prefix}${streamId}`, message),
+    getStreamIdForEventId: lookup && (async (eventId) => (owns(eventId) ? unscoped(await lookup(eventId)) : undefined)),
+    async replayEventsAfter(lastEventId, { send }) {
+      if (!owns(lastEventId)) {
+        throw new Error('Event ID belongs to another session');
+      }
+      return unscoped(await store.replayEventsAfter(lastEventId, { send })) ?? '';
+    },
+  };
+}
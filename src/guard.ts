@@ -0,0 +1,148 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { AuditLogger, hashArguments } from './audit.js';
+import { AccessPolicy, AccessRequirement, AuthContext, findMissingAccess } from './auth.js';
+import { McpMetrics } from './metrics.js';
+
+export interface ServerGuardOptions {
+  accessPolicy?: AccessPolicy;
+  // Records an mcp.invoked event per tool call, resource read and prompt get
+  audit?: AuditLogger;
+  // Times tool calls and counts their errors
+  metrics?: McpMetrics;
+}
+
+export interface ServerGuard {
+  // Enable what the caller's grants allow and disable the rest. Once the server is connected, the SDK sends the client
+  // list_changed notifications for what changed, so a client that stepped up its scopes sees the new entries.
+  authorize(caller: AuthContext): void;
+}
+
+type Kind = 'tool' | 'resource' | 'prompt';
+
+// Registration methods of McpServer and what they register
+const REGISTRATIONS = {
+  tool: 'tool',
+  registerTool: 'tool',
+  resource: 'resource',
+  registerResource: 'resource',
+  prompt: 'prompt',
+  registerPrompt: 'prompt',
+} as const satisfies Partial<Record<keyof McpServer, Kind>>;
+
+type RegistrationMethod = keyof typeof REGISTRATIONS;
+
+// What every registration method returns: a RegisteredTool, RegisteredResource(Template) or RegisteredPrompt
+interface Registered {
+  enabled: boolean;
+  enable(): void;
+  disable(): void;
+}
+
+type Handler = (...args: unknown[]) => unknown;
+
+// Replaces the registration methods of a server, since the SDK has no hook for what gets registered. This is the only
+// place the guard touches the SDK beyond its public API, and it relies on the shape every registration method shares:
+// the name comes first, then (for resources) the URI or template, and the handler is always the last argument.
+function interceptRegistrations(
+  server: McpServer,
+  intercept: (kind: Kind, name: string, handler: Handler) => Handler,
+  registered: (kind: Kind, name: string, target: unknown, handle: Registered) => void
+) {
+  const replace = <M extends RegistrationMethod>(method: M) => {
+    const kind = REGISTRATIONS[method];
+    const register: (...args: never[]) => unknown = server[method];
+    const replacement = (...args: unknown[]) => {
+      const [name, target] = args as [string, unknown];
+      args[args.length - 1] = intercept(kind, name, args[args.length - 1] as Handler);
+      const handle = Reflect.apply(register, server, args) as Registered;
+      registered(kind, name, target, handle);
+      return handle;
+    };
+    server[method] = replacement as McpServer[M];
+  };
+
+  for (const method of Object.keys(REGISTRATIONS) as RegistrationMethod[]) {
+    replace(method);
+  }
+}
+
+// Hook every tool, resource and prompt registered on a fresh server: wrap the handler with auditing and metrics, and
+// keep what the access policy requires of it. Call it before anything is registered, then authorize() the caller of
+// every request: access follows the request's token, not the one that opened the session. Calls are also checked per
+// request by the scope middleware, which answers with an insufficient_scope challenge.
+export function guardServer(server: McpServer, options: ServerGuardOptions): ServerGuard {
+  const policy = options.accessPolicy;
+  // Entries disabled here rather than by whoever registered them, which is what authorize() may enable again
+  const entries: { requirement?: AccessRequirement; handle: Registered; withheld: boolean }[] = [];
+
+  function requirementFor(kind: Kind, name: string, target: unknown): AccessRequirement | undefined {
+    if (kind === 'tool') {
+      return policy?.tools[name];
+    }
+    if (kind === 'prompt') {
+      return policy?.prompts[name];
+    }
+    // Resources are keyed by URI; templates have no single URI to list
+    return typeof target === 'string' ? policy?.resources[target] : undefined;
+  }
+
+  function instrument(kind: Kind, name: string, handler: Handler): Handler {
+    return async (...args: unknown[]) => {
+      const extra = args.at(-1) as { authInfo?: AuthInfo; sessionId?: string } | undefined;
+      const caller = extra?.authInfo?.extra?.context as AuthContext | undefined;
+      const started = performance.now();
+      const entry = {
+        event: 'mcp.invoked' as const,
+        kind,
+        // Resource handlers receive the URI that was read, which may expand a template
+        name: kind === 'resource' ? String(args[0]) : name,
+        sessionId: extra?.sessionId,
+        subject: caller?.subject,
+        clientId: caller?.clientId,
+        // Handlers without an arguments schema only receive `extra`
+        argumentsHash: kind === 'resource' ? undefined : hashArguments(args.length > 1 ? args[0] : {}),
+      };
+
+      let outcome: 'success' | 'error' = 'error';
+      let error: string | undefined;
+      try {
+        const result = (await handler(...args)) as { isError?: boolean } | undefined;
+        // Tool failures come back as results flagged isError rather than thrown
+        outcome = result?.isError ? 'error' : 'success';
+        return result;
+      } catch (thrown) {
+        error = thrown instanceof Error ? thrown.message : String(thrown);
+        throw thrown;
+      } finally {
+        const duration = performance.now() - started;
+        options.audit?.log({ ...entry, durationMs: Math.round(duration), outcome, error });
+        if (kind === 'tool' && options.metrics) {
+          options.metrics.toolCallDuration.observe({ tool: name, outcome }, duration / 1000);
+          if (outcome === 'error') {
+            options.metrics.toolCallErrors.inc({ tool: name });
+          }
+        }
+      }
+    };
+  }
+
+  interceptRegistrations(server, instrument, (kind, name, target, handle) => {
+    entries.push({ requirement: requirementFor(kind, name, target), handle, withheld: false });
+  });
+
+  return {
+    authorize(caller) {
+      for (const entry of entries) {
+        const denied = findMissingAccess(caller, entry.requirement) !== undefined;
+        if (denied && entry.handle.enabled) {
+          entry.withheld = true;
+          entry.handle.disable();
+        } else if (!denied && entry.withheld) {
+          entry.withheld = false;
+          entry.handle.enable();
+        }
+      }
+    },
+  };
+}
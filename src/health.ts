@@ -0,0 +1,62 @@
+import { RequestHandler } from 'express';
+import { IssuerStatus, TokenVerifier } from './auth.js';
+import { SessionManager } from './sessions.js';
+
+export interface ReadinessOptions {
+  verifier: TokenVerifier;
+  // Reported as the open session count
+  sessions?: SessionManager;
+  // Seconds an issuer that failed its latest check still counts as ready, because the keys it last served
+  // stay cached (default 300, 0 requires the latest check to pass)
+  maxStaleness?: number;
+}
+
+export interface IssuerHealth extends IssuerStatus {
+  // Tokens from this issuer can currently be verified
+  ready: boolean;
+}
+
+export interface HealthReport {
+  // ok: every issuer passed its latest check; degraded: some did not, but tokens can still be verified;
+  // unavailable: no issuer is ready, so every authenticated request would be rejected
+  status: 'ok' | 'degraded' | 'unavailable';
+  timestamp: string;
+  // Process uptime in seconds
+  uptime: number;
+  sessions?: number;
+  issuers: IssuerHealth[];
+}
+
+// Readiness from the verifier's cached issuer checks; never contacts the issuers itself
+export function checkReadiness(options: ReadinessOptions): HealthReport {
+  const maxStaleness = (options.maxStaleness ?? 300) * 1000;
+  const now = Date.now();
+
+  const issuers = options.verifier.status().map((issuer) => ({
+    ...issuer,
+    ready: issuer.ok || (issuer.lastSuccessAt !== undefined && now - Date.parse(issuer.lastSuccessAt) <= maxStaleness),
+  }));
+
+  return {
+    status: issuers.every((issuer) => issuer.ok) ? 'ok' : issuers.some((issuer) => issuer.ready) ? 'degraded' : 'unavailable',
+    timestamp: new Date(now).toISOString(),
+    uptime: Math.round(process.uptime()),
+    sessions: options.sessions?.size,
+    issuers,
+  };
+}
+
+// Liveness: the process is up and serving requests; deliberately ignores the issuers so an outage doesn't trigger restarts
+export function createLivenessHandler(): RequestHandler {
+  return (req, res) => {
+    res.json({ status: 'ok', timestamp: new Date().toISOString(), uptime: Math.round(process.uptime()) });
+  };
+}
+
+// Readiness: 503 while no trusted issuer is ready, so orchestrators stop routing traffic here
+export function createReadinessHandler(options: ReadinessOptions): RequestHandler {
+  return (req, res) => {
+    const report = checkReadiness(options);
+    res.status(report.status === 'unavailable' ? 503 : 200).json(report);
+  };
+}
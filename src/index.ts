@@ -0,0 +1,71 @@
+// Public API for embedding OAuth-protected MCP endpoints in other Express apps
+export { createMcpApp } from './app.js';
+export type { McpApp, McpAppOptions, McpAuthOptions } from './app.js';
+
+export { createAuditLogger, createFileSink, createStdoutSink, hashArguments, redact } from './audit.js';
+export type { AuditEvent, AuditLogger, AuditRecord, AuditSink, FileSinkOptions } from './audit.js';
+
+export {
+  buildWwwAuthenticate,
+  createOAuthMiddleware,
+  createProtectedResourceMetadataHandler,
+  createScopeMiddleware,
+  createTokenVerifier,
+  discoverIssuer,
+  findMissingAccess,
+  getAuthContext,
+  scopesSupportedBy,
+} from './auth.js';
+export type {
+  AccessPolicy,
+  AccessRequirement,
+  AuthContext,
+  AuthorizationServerMetadata,
+  Grants,
+  IssuerStatus,
+  OAuthMiddlewareOptions,
+  ProtectedResourceMetadataOptions,
+  ScopeMiddlewareOptions,
+  TokenRejectionReason,
+  TokenValidationMode,
+  TokenVerificationResult,
+  TokenVerifier,
+  TokenVerifierOptions,
+} from './auth.js';
+
+export { countMcpRequests, createMcpMetrics, createMetricsRegistry } from './metrics.js';
+export type { Counter, Gauge, Histogram, McpMetrics, MetricsRegistry } from './metrics.js';
+
+export { guardServer } from './guard.js';
+export type { ServerGuard, ServerGuardOptions } from './guard.js';
+
+export { checkReadiness, createLivenessHandler, createReadinessHandler } from './health.js';
+export type { HealthReport, IssuerHealth, ReadinessOptions } from './health.js';
+
+export { createMemoryRateLimitStore, createRateLimiter } from './ratelimit.js';
+export type { RateLimitOptions, RateLimitStore, RateLimitWindow, RateLimiter } from './ratelimit.js';
+
+export {
+  createMemorySessionStore,
+  createSessionManager,
+  isSessionOwner,
+  sessionOwnerOf,
+} from './sessions.js';
+export type {
+  McpSession,
+  SessionClient,
+  SessionManager,
+  SessionManagerOptions,
+  SessionOwner,
+  SessionRecord,
+  SessionStore,
+} from './sessions.js';
+
+export { createMemoryEventStore, scopeEventStore } from './events.js';
+export type { MemoryEventStoreOptions } from './events.js';
+
+export { connectRedis, createRedisEventStore, createRedisSessionStore } from './redis.js';
+export type { RedisCommand, RedisConnection, RedisStoreOptions, RedisTransaction } from './redis.js';
+
+export { RegistrationError, createClientRegistrationHandler } from './registration.js';
+export type { ClientRegistrationOptions } from './registration.js';
@@ -0,0 +1,182 @@
+// Minimal Prometheus registry (text exposition format 0.0.4): counters, gauges and histograms with labels
+
+type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels | undefined, value: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels | undefined, value: number): void;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  gauge(name: string, help: string): Gauge;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  // Run before every render, e.g. to set gauges from current state
+  onCollect(collect: () => void): void;
+  render(): string;
+}
+
+// Seconds; covers fast local checks up to slow network calls
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function labelKey(labels: Labels = {}): string {
+  return Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`)
+    .join(',');
+}
+
+function series(name: string, key: string, extra?: string): string {
+  const labels = [key, extra].filter(Boolean).join(',');
+  return labels ? `${name}{${labels}}` : name;
+}
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const renderers: (() => string[])[] = [];
+  const collectors: (() => void)[] = [];
+  const names = new Set<string>();
+
+  function register(name: string, help: string, type: string, lines: () => string[]) {
+    if (names.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    names.add(name);
+    renderers.push(() => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`, ...lines()]);
+  }
+
+  return {
+    counter(name, help) {
+      const values = new Map<string, number>();
+      register(name, help, 'counter', () => [...values].map(([key, value]) => `${series(name, key)} ${value}`));
+      return {
+        inc(labels, value = 1) {
+          const key = labelKey(labels);
+          values.set(key, (values.get(key) ?? 0) + value);
+        },
+      };
+    },
+
+    gauge(name, help) {
+      const values = new Map<string, number>();
+      register(name, help, 'gauge', () => [...values].map(([key, value]) => `${series(name, key)} ${value}`));
+      return {
+        set(labels, value) {
+          values.set(labelKey(labels), value);
+        },
+      };
+    },
+
+    histogram(name, help, buckets = DEFAULT_BUCKETS) {
+      const values = new Map<string, { counts: number[]; sum: number; count: number }>();
+      register(name, help, 'histogram', () =>
+        [...values].flatMap(([key, value]) => [
+          ...buckets.map((bound, i) => `${series(`${name}_bucket`, key, `le="${bound}"`)} ${value.counts[i]}`),
+          `${series(`${name}_bucket`, key, 'le="+Inf"')} ${value.count}`,
+          `${series(`${name}_sum`, key)} ${value.sum}`,
+          `${series(`${name}_count`, key)} ${value.count}`,
+        ])
+      );
+      return {
+        observe(labels, value) {
+          const key = labelKey(labels);
+          let entry = values.get(key);
+          if (!entry) {
+            entry = { counts: buckets.map(() => 0), sum: 0, count: 0 };
+            values.set(key, entry);
+          }
+          // Buckets are cumulative
+          buckets.forEach((bound, i) => {
+            if (value <= bound) {
+              entry!.counts[i]++;
+            }
+          });
+          entry.sum += value;
+          entry.count++;
+        },
+      };
+    },
+
+    onCollect(collect) {
+      collectors.push(collect);
+    },
+
+    render() {
+      for (const collect of collectors) {
+        collect();
+      }
+      return `${renderers.flatMap((render) => render()).join('\n')}\n`;
+    },
+  };
+}
+
+// Auth and MCP traffic metrics shared by the token verifier, the MCP app and the server
+export interface McpMetrics {
+  registry: MetricsRegistry;
+  // outcome: valid | rejected; reason: a TokenRejectionReason, or "ok"
+  tokenVerifications: Counter;
+  jwksFetchDuration: Histogram;
+  jwksFetchFailures: Counter;
+  issuerUp: Gauge;
+  activeSessions: Gauge;
+  mcpRequests: Counter;
+  toolCallDuration: Histogram;
+  toolCallErrors: Counter;
+  rateLimited: Counter;
+}
+
+export function createMcpMetrics(registry: MetricsRegistry = createMetricsRegistry()): McpMetrics {
+  return {
+    registry,
+    tokenVerifications: registry.counter('mcp_token_verifications_total', 'Access token verifications by outcome and rejection reason'),
+    jwksFetchDuration: registry.histogram('mcp_jwks_fetch_duration_seconds', 'Time spent fetching an issuer\'s JWKS'),
+    jwksFetchFailures: registry.counter('mcp_jwks_fetch_failures_total', 'Failed JWKS fetches by issuer'),
+    issuerUp: registry.gauge('mcp_issuer_up', 'Whether the trusted issuer passed its most recent discovery and JWKS check'),
+    activeSessions: registry.gauge('mcp_active_sessions', 'Open MCP sessions'),
+    mcpRequests: registry.counter('mcp_requests_total', 'MCP JSON-RPC messages received by method'),
+    toolCallDuration: registry.histogram('mcp_tool_call_duration_seconds', 'Tool call latency by tool and outcome'),
+    toolCallErrors: registry.counter('mcp_tool_call_errors_total', 'Tool calls that failed or returned isError, by tool'),
+    rateLimited: registry.counter('mcp_rate_limited_total', 'Requests rejected with 429 by the limit they exceeded'),
+  };
+}
+
+// Methods defined by the MCP specification; anything else is counted as "other" so clients can't create unbounded series
+const MCP_METHODS = new Set([
+  'initialize',
+  'ping',
+  'tools/list',
+  'tools/call',
+  'resources/list',
+  'resources/templates/list',
+  'resources/read',
+  'resources/subscribe',
+  'resources/unsubscribe',
+  'prompts/list',
+  'prompts/get',
+  'completion/complete',
+  'logging/setLevel',
+  'notifications/initialized',
+  'notifications/cancelled',
+  'notifications/progress',
+  'notifications/roots/list_changed',
+]);
+
+export function countMcpRequests(metrics: McpMetrics, body: unknown) {
+  const messages = Array.isArray(body) ? body : [body];
+  for (const message of messages) {
+    // Responses to server requests carry no method
+    if (message && typeof message.method === 'string') {
+      metrics.mcpRequests.inc({ method: MCP_METHODS.has(message.method) ? message.method : 'other' });
+    }
+  }
+}
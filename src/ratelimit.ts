@@ -0,0 +1,212 @@
+import { Request, RequestHandler, Response } from 'express';
+import { AuditLogger } from './audit.js';
+import { getAuthContext } from './auth.js';
+import { McpMetrics } from './metrics.js';
+
+// Hits counted against a key in the current fixed window
+export interface RateLimitWindow {
+  count: number;
+  // When the window ends (epoch milliseconds)
+  resetAt: number;
+}
+
+// Counters behind the rate limiter; implement this over Redis or similar to share limits across replicas
+export interface RateLimitStore {
+  // Count a hit against key and return the current window, starting a new one of windowMs if none is open
+  increment(key: string, windowMs: number): Promise<RateLimitWindow>;
+  close?(): Promise<void>;
+}
+
+// Single-process store; expired windows are swept periodically
+export function createMemoryRateLimitStore(options: { sweepInterval?: number } = {}): RateLimitStore {
+  const windows = new Map<string, RateLimitWindow>();
+
+  const sweeper = setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    }
+  }, (options.sweepInterval ?? 60) * 1000);
+  // Don't keep the process alive just for the sweeper
+  sweeper.unref();
+
+  function current(key: string): RateLimitWindow | undefined {
+    const window = windows.get(key);
+    return window && window.resetAt > Date.now() ? window : undefined;
+  }
+
+  return {
+    async increment(key, windowMs) {
+      const window = current(key) ?? { count: 0, resetAt: Date.now() + windowMs };
+      window.count++;
+      windows.set(key, window);
+      return { ...window };
+    },
+    async close() {
+      clearInterval(sweeper);
+      windows.clear();
+    },
+  };
+}
+
+export interface RateLimitOptions {
+  // Length of every limit's window (seconds, default 60)
+  window?: number;
+  // Requests to the MCP endpoint per user and client per window (default 300, 0 disables)
+  requests?: number;
+  // Failed authentications per IP per window before further failures get 429 instead of 401 (default 60, 0 disables)
+  unauthenticated?: number;
+  // Calls to any one tool per user and client per window (default 0, disabled)
+  toolCalls?: number;
+  // Dynamic client registrations per IP per window (default 10, 0 disables)
+  registrations?: number;
+  // Per-tool overrides of toolCalls, keyed by tool name
+  tools?: Record<string, number>;
+  // Defaults to an in-memory store
+  store?: RateLimitStore;
+  audit?: AuditLogger;
+  metrics?: McpMetrics;
+}
+
+export interface RateLimiter {
+  // Pass to the OAuth middleware as limitFailures: counts a failed authentication against the client IP and answers
+  // 429 once the IP has too many. Requests with a valid token are never held back by their IP.
+  limitFailures(req: Request, res: Response): Promise<boolean>;
+  // Mount after the OAuth middleware: limits requests and tool calls per user and client
+  authenticated: RequestHandler;
+  // Mount in front of the registration endpoint: limits new client registrations per IP, since each creates a client
+  registrations: RequestHandler;
+  close(): Promise<void>;
+}
+
+type LimitKind = 'requests' | 'tool' | 'unauthenticated' | 'registrations';
+
+// MCP defines no rate limit error; use the JSON-RPC implementation-defined server error range
+const RATE_LIMITED = -32029;
+
+export function createRateLimiter(options: RateLimitOptions = {}): RateLimiter {
+  const windowMs = (options.window ?? 60) * 1000;
+  const requestLimit = options.requests ?? 300;
+  const unauthenticatedLimit = options.unauthenticated ?? 60;
+  const toolCallLimit = options.toolCalls ?? 0;
+  const toolLimits = options.tools ?? {};
+  const registrationLimit = options.registrations ?? 10;
+  const store = options.store ?? createMemoryRateLimitStore();
+
+  function reject(
+    req: Request,
+    res: Response,
+    rejection: { kind: LimitKind; limit: number; window: RateLimitWindow; id?: unknown; target?: string }
+  ) {
+    const retryAfter = Math.max(1, Math.ceil((rejection.window.resetAt - Date.now()) / 1000));
+    const perIp = rejection.kind === 'unauthenticated' || rejection.kind === 'registrations';
+    const user = perIp ? undefined : getAuthContext({ authInfo: (req as any).auth });
+
+    options.audit?.log({
+      event: 'rate.limited',
+      limit: rejection.kind,
+      subject: user?.subject,
+      clientId: user?.clientId,
+      ip: req.ip,
+      target: rejection.target,
+      retryAfter,
+    });
+    options.metrics?.rateLimited.inc({ limit: rejection.kind });
+
+    const counted = { requests: 'requests', unauthenticated: 'failed authentications', registrations: 'client registrations' };
+    const message = rejection.kind === 'tool'
+      ? `Rate limit exceeded for tool ${rejection.target}: ${rejection.limit} calls per ${windowMs / 1000}s`
+      : `Rate limit exceeded: ${rejection.limit} ${counted[rejection.kind]} per ${windowMs / 1000}s`;
+
+    res.set('Retry-After', String(retryAfter)).status(429);
+    // The registration endpoint answers in OAuth's error format rather than JSON-RPC
+    if (rejection.kind === 'registrations') {
+      res.json({ error: 'too_many_requests', error_description: message });
+      return;
+    }
+    res.json({
+      jsonrpc: '2.0',
+      error: { code: RATE_LIMITED, message, data: { retryAfter } },
+      id: rejection.id ?? null,
+    });
+  }
+
+  // A limiter that can't reach its store lets requests through rather than taking the endpoint down
+  function storeFailed(error: unknown) {
+    console.error('Rate limit store failed, allowing request:', error instanceof Error ? error.message : error);
+  }
+
+  async function limitFailures(req: Request, res: Response): Promise<boolean> {
+    if (unauthenticatedLimit === 0) {
+      return false;
+    }
+    let window: RateLimitWindow;
+    try {
+      window = await store.increment(`unauthenticated:${req.ip}`, windowMs);
+    } catch (error) {
+      storeFailed(error);
+      return false;
+    }
+    if (window.count <= unauthenticatedLimit) {
+      return false;
+    }
+    reject(req, res, { kind: 'unauthenticated', limit: unauthenticatedLimit, window });
+    return true;
+  }
+
+  const authenticated: RequestHandler = async (req, res, next) => {
+    const user = getAuthContext({ authInfo: (req as any).auth });
+    const principal = `${user.issuer ?? ''}|${user.subject}|${user.clientId ?? ''}`;
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+
+    try {
+      if (requestLimit > 0) {
+        const window = await store.increment(`requests:${principal}`, windowMs);
+        if (window.count > requestLimit) {
+          return reject(req, res, { kind: 'requests', limit: requestLimit, window, id: Array.isArray(req.body) ? undefined : req.body?.id });
+        }
+      }
+
+      for (const message of messages) {
+        const name = message?.method === 'tools/call' ? message.params?.name : undefined;
+        const limit = typeof name === 'string' ? (Object.hasOwn(toolLimits, name) ? toolLimits[name] : toolCallLimit) : 0;
+        if (limit === 0) {
+          continue;
+        }
+        const window = await store.increment(`tool:${name}:${principal}`, windowMs);
+        if (window.count > limit) {
+          return reject(req, res, { kind: 'tool', limit, window, id: message.id, target: name });
+        }
+      }
+    } catch (error) {
+      storeFailed(error);
+    }
+
+    next();
+  };
+
+  const registrations: RequestHandler = async (req, res, next) => {
+    if (req.method === 'POST' && registrationLimit > 0) {
+      try {
+        const window = await store.increment(`registrations:${req.ip}`, windowMs);
+        if (window.count > registrationLimit) {
+          return reject(req, res, { kind: 'registrations', limit: registrationLimit, window });
+        }
+      } catch (error) {
+        storeFailed(error);
+      }
+    }
+    next();
+  };
+
+  return {
+    limitFailures,
+    authenticated,
+    registrations,
+    close: async () => {
+      await store.close?.();
+    },
+  };
+}
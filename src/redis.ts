@@ -0,0 +1,153 @@
+import { createClient } from 'redis';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { EventId, EventStore, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SessionOwner, SessionRecord, SessionStore } from './sessions.js';
+
+// Sends one command and resolves with its reply; adapt any Redis client, e.g. (args) => client.sendCommand(args)
+export type RedisCommand = (args: string[]) => Promise<unknown>;
+
+// Runs commands atomically in one MULTI/EXEC and resolves with their replies, e.g. with node-redis
+// (commands) => commands.reduce((multi, args) => multi.addCommand(args), client.multi()).exec()
+export type RedisTransaction = (commands: string[][]) => Promise<unknown[]>;
+
+export interface RedisConnection {
+  command: RedisCommand;
+  transaction: RedisTransaction;
+  close(): Promise<void>;
+}
+
+// node-redis client for redis:// and rediss:// URLs (with optional user, password and database number). It reconnects
+// with a backoff after the connection drops; commands wait for the connection but fail after `commandTimeout`
+// milliseconds, so an unreachable Redis surfaces as errors instead of stalled requests.
+export function connectRedis(url: string, options: { connectTimeout?: number; commandTimeout?: number } = {}): RedisConnection {
+  const target = new URL(url);
+  if (target.protocol !== 'redis:' && target.protocol !== 'rediss:') {
+    throw new Error(`Unsupported Redis URL scheme: ${target.protocol}`);
+  }
+
+  const client = createClient({
+    url,
+    // Replies as plain strings, numbers and arrays, which is what the stores read
+    RESP: 2,
+    socket: { connectTimeout: options.connectTimeout ?? 5000 },
+    commandOptions: { timeout: options.commandTimeout ?? 5000 },
+  });
+  // Reported for every failed (re)connection attempt; the client keeps retrying
+  client.on('error', (error) => console.error('Redis connection failed:', error instanceof Error ? error.message : error));
+  client.connect().catch((error) => console.error('Redis connection closed:', error instanceof Error ? error.message : error));
+
+  return {
+    command: (args) => client.sendCommand(args),
+    transaction: (commands) => commands.reduce((multi, args) => multi.addCommand(args), client.multi()).exec(),
+    async close() {
+      if (client.isReady) {
+        await client.close();
+      } else {
+        // Nothing to wait for; drop commands still waiting for a connection
+        client.destroy();
+      }
+    },
+  };
+}
+
+export interface RedisStoreOptions {
+  command: RedisCommand;
+  transaction: RedisTransaction;
+  // Prepended to every key (default "mcp:")
+  prefix?: string;
+}
+
+function ownerKey(owner: SessionOwner): string {
+  return [owner.issuer ?? '', owner.subject, owner.clientId ?? ''].join('|');
+}
+
+// Session records shared by every instance: one JSON string per session, plus a sorted set per owner scored by expiry
+export function createRedisSessionStore(options: RedisStoreOptions & {
+  // Seconds a record outlives its expiry, so the instance holding it can still tell why it ended (default 300)
+  grace?: number;
+}): SessionStore {
+  const prefix = options.prefix ?? 'mcp:';
+  const grace = (options.grace ?? 300) * 1000;
+  const { command, transaction } = options;
+  const sessionKey = (sessionId: string) => `${prefix}session:${sessionId}`;
+  const ownedKey = (owner: SessionOwner) => `${prefix}owner:${ownerKey(owner)}`;
+
+  async function get(sessionId: string): Promise<SessionRecord | undefined> {
+    const value = await command(['GET', sessionKey(sessionId)]);
+    return typeof value === 'string' ? (JSON.parse(value) as SessionRecord) : undefined;
+  }
+
+  return {
+    shared: true,
+    get,
+    async set(record) {
+      const expireAt = String(record.expiresAt + grace);
+      await transaction([
+        ['SET', sessionKey(record.sessionId), JSON.stringify(record), 'PXAT', expireAt],
+        ['ZADD', ownedKey(record.owner), String(record.expiresAt), record.sessionId],
+        // The owner's set lives as long as its longest-lived session: NX sets a first expiry, GT only extends it
+        ['PEXPIREAT', ownedKey(record.owner), expireAt, 'NX'],
+        ['PEXPIREAT', ownedKey(record.owner), expireAt, 'GT'],
+      ]);
+    },
+    async delete(sessionId) {
+      const record = await get(sessionId);
+      await transaction([
+        ['DEL', sessionKey(sessionId)],
+        ...(record ? [['ZREM', ownedKey(record.owner), sessionId]] : []),
+      ]);
+    },
+    async countOwned(owner, now) {
+      // Entries of sessions that expired without being deleted, e.g. when an instance crashed
+      await command(['ZREMRANGEBYSCORE', ownedKey(owner), '-inf', String(now)]);
+      return Number(await command(['ZCARD', ownedKey(owner)]));
+    },
+  };
+}
+
+// Resumability events shared by every instance: a capped list per stream, expiring when the stream goes quiet
+export function createRedisEventStore(options: RedisStoreOptions & {
+  // Seconds a stream's events are kept after its last event (default 300)
+  ttl?: number;
+  // Most recent events kept per stream (default 1000)
+  maxEventsPerStream?: number;
+}): EventStore {
+  const prefix = options.prefix ?? 'mcp:';
+  const ttl = (options.ttl ?? 300) * 1000;
+  const maxEvents = options.maxEventsPerStream ?? 1000;
+  const { command, transaction } = options;
+  const streamKey = (streamId: StreamId) => `${prefix}stream:${streamId}`;
+
+  // Event IDs are `<streamId>_<sequence>`; stream IDs may themselves contain underscores
+  const streamOf = (eventId: EventId) => eventId.slice(0, eventId.lastIndexOf('_'));
+  const sequenceOf = (eventId: EventId) => Number(eventId.slice(eventId.lastIndexOf('_') + 1));
+
+  return {
+    async storeEvent(streamId, message) {
+      const eventId = `${streamId}_${await command(['INCR', `${prefix}event-sequence`])}`;
+      await transaction([
+        ['RPUSH', streamKey(streamId), JSON.stringify({ eventId, message })],
+        ['LTRIM', streamKey(streamId), String(-maxEvents), '-1'],
+        ['PEXPIRE', streamKey(streamId), String(ttl)],
+      ]);
+      return eventId;
+    },
+    async getStreamIdForEventId(eventId) {
+      const streamId = streamOf(eventId);
+      return eventId.includes('_') && Number(await command(['EXISTS', streamKey(streamId)])) > 0 ? streamId : undefined;
+    },
+    async replayEventsAfter(lastEventId, { send }) {
+      const streamId = streamOf(lastEventId);
+      const after = sequenceOf(lastEventId);
+      const entries = (await command(['LRANGE', streamKey(streamId), '0', '-1'])) as string[];
+      for (const entry of entries) {
+        const { eventId, message } = JSON.parse(entry) as { eventId: EventId; message: JSONRPCMessage };
+        // Priming events carry no message and aren't replayed
+        if (sequenceOf(eventId) > after && 'jsonrpc' in message) {
+          await send(eventId, message);
+        }
+      }
+      return streamId;
+    },
+  };
+}
@@ -0,0 +1,352 @@
+import express, { Response, Router } from 'express';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { buildWwwAuthenticate } from './auth.js';
+
+export interface ClientRegistrationOptions {
+  // Keycloak realm issuer, e.g. http://localhost:8080/realms/mcp-demo
+  issuer: string;
+  // Admin API base for the same realm, e.g. http://localhost:8080/admin/realms/mcp-demo
+  adminUrl: string;
+  // Confidential client whose service account may manage clients
+  clientId: string;
+  clientSecret: string;
+  // Redirect URIs registered clients may use. A pattern without a path allows any path, and `*` may only stand for
+  // the port, e.g. http://localhost:*
+  redirectUriPatterns: string[];
+  clientIdPrefix?: string;
+  // Registered clients get an audience mapper for this resource (RFC 8707)
+  resourceUrl: string;
+  // Scopes registered clients may request in addition to profile and email
+  optionalClientScopes?: string[];
+  // Public URL the handler is mounted at; each client's configuration endpoint (RFC 7592) is `${registrationUrl}/<client_id>`
+  registrationUrl: string;
+}
+
+// RFC 7591 client metadata (the subset MCP clients send)
+interface ClientRegistrationRequest {
+  client_id?: string;
+  redirect_uris?: string[];
+  client_name?: string;
+  grant_types?: string[];
+  response_types?: string[];
+  token_endpoint_auth_method?: string;
+  scope?: string;
+}
+
+export class RegistrationError extends Error {
+  constructor(public readonly code: 'invalid_redirect_uri' | 'invalid_client_metadata', message: string) {
+    super(message);
+  }
+}
+
+// Keycloak client attributes holding what the admin API has no field for
+const ATTRIBUTES = {
+  // SHA-256 of the registration access token; the token itself is only ever returned to the client
+  tokenHash: 'mcp.dcr.registration-token-sha256',
+  authMethod: 'mcp.dcr.token-endpoint-auth-method',
+  grantTypes: 'mcp.dcr.grant-types',
+  scope: 'mcp.dcr.scope',
+  issuedAt: 'mcp.dcr.issued-at',
+};
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+interface RedirectUriPattern {
+  url: URL;
+  anyPort: boolean;
+  anyPath: boolean;
+}
+
+function parseRedirectUriPattern(pattern: string): RedirectUriPattern {
+  // `scheme://host:*` optionally followed by a path
+  const anyPort = /^[a-z][a-z0-9+.-]*:\/\/[^/?#@]+:\*(?=[/?#]|$)/i.test(pattern);
+  const text = anyPort ? pattern.replace(':*', '') : pattern;
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    throw new Error(`Invalid redirect URI pattern: ${pattern}`);
+  }
+  if (text.includes('*') || url.username || url.password || url.hash) {
+    throw new Error(`Invalid redirect URI pattern: ${pattern} (\`*\` may only stand for the port)`);
+  }
+  return { url, anyPort, anyPath: /^[^:]+:\/\/[^/?#]*$/.test(text) };
+}
+
+function matchesRedirectUriPattern(uri: string, pattern: RedirectUriPattern): boolean {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    return false;
+  }
+  // Userinfo could make a URI look like an allowed host to a careless reader; fragments are not allowed (RFC 6749)
+  if (url.username || url.password || url.hash) {
+    return false;
+  }
+  const allowed = pattern.url;
+  return (
+    url.protocol === allowed.protocol &&
+    url.hostname === allowed.hostname &&
+    (pattern.anyPort || url.port === allowed.port) &&
+    (pattern.anyPath || (url.pathname === allowed.pathname && url.search === allowed.search))
+  );
+}
+
+// RFC 7591 Dynamic Client Registration backed by the Keycloak admin API, with RFC 7592 client configuration endpoints.
+// Serves POST / and GET, PUT and DELETE /:clientId; mount it at the path registrationUrl points to.
+export function createClientRegistrationHandler(options: ClientRegistrationOptions): Router {
+  const clientIdPrefix = options.clientIdPrefix ?? 'mcp-dcr-';
+  const redirectUriPatterns = options.redirectUriPatterns.map(parseRedirectUriPattern);
+
+  // Access token for the Keycloak admin API, from the server client's service account
+  let adminToken: { token: string; expiresAt: number } | undefined;
+
+  async function getKeycloakAdminToken(): Promise<string> {
+    if (adminToken && adminToken.expiresAt > Date.now() + 10_000) {
+      return adminToken.token;
+    }
+
+    if (!options.clientSecret) {
+      throw new Error('Dynamic client registration requires a client secret');
+    }
+
+    const response = await fetch(`${options.issuer}/protocol/openid-connect/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to get admin token: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { access_token: string; expires_in: number };
+    adminToken = { token: data.access_token, expiresAt: Date.now() + data.expires_in * 1000 };
+    return adminToken.token;
+  }
+
+  async function adminHeaders() {
+    return { Authorization: `Bearer ${await getKeycloakAdminToken()}`, 'Content-Type': 'application/json' };
+  }
+
+  function validate(request: ClientRegistrationRequest) {
+    const redirectUris = request.redirect_uris ?? [];
+    if (!Array.isArray(redirectUris) || redirectUris.length === 0) {
+      throw new RegistrationError('invalid_redirect_uri', 'redirect_uris is required');
+    }
+    const rejected = redirectUris.filter((uri) => !redirectUriPatterns.some((pattern) => matchesRedirectUriPattern(uri, pattern)));
+    if (rejected.length > 0) {
+      throw new RegistrationError('invalid_redirect_uri', `Redirect URI not allowed: ${rejected.join(', ')}`);
+    }
+
+    const authMethod = request.token_endpoint_auth_method ?? 'none';
+    if (!['none', 'client_secret_basic', 'client_secret_post'].includes(authMethod)) {
+      throw new RegistrationError('invalid_client_metadata', `Unsupported token_endpoint_auth_method: ${authMethod}`);
+    }
+    const grantTypes = request.grant_types ?? ['authorization_code', 'refresh_token'];
+    const unsupportedGrants = grantTypes.filter((grant) => !['authorization_code', 'refresh_token'].includes(grant));
+    if (unsupportedGrants.length > 0) {
+      throw new RegistrationError('invalid_client_metadata', `Unsupported grant_types: ${unsupportedGrants.join(', ')}`);
+    }
+
+    return { redirectUris, authMethod, grantTypes, clientName: request.client_name || 'MCP Client' };
+  }
+
+  // Client information response (RFC 7591 §3.2.1, RFC 7592 §3) for a Keycloak client representation
+  function clientInformation(client: any, registrationToken: string) {
+    const attributes = client.attributes ?? {};
+    return {
+      client_id: client.clientId,
+      client_id_issued_at: Number(attributes[ATTRIBUTES.issuedAt]),
+      client_name: client.name,
+      redirect_uris: client.redirectUris,
+      grant_types: String(attributes[ATTRIBUTES.grantTypes] ?? '').split(' ').filter(Boolean),
+      response_types: ['code'],
+      token_endpoint_auth_method: attributes[ATTRIBUTES.authMethod],
+      scope: attributes[ATTRIBUTES.scope] || undefined,
+      registration_client_uri: `${options.registrationUrl}/${encodeURIComponent(client.clientId)}`,
+      registration_access_token: registrationToken,
+    };
+  }
+
+  // Every registration creates a new client under a random ID, so nobody can take over or read another registration
+  async function registerClient(request: ClientRegistrationRequest) {
+    const { redirectUris, authMethod, grantTypes, clientName } = validate(request);
+    const clientId = `${clientIdPrefix}${randomUUID()}`;
+    const isPublic = authMethod === 'none';
+    const clientSecret = isPublic ? undefined : randomBytes(32).toString('base64url');
+    const registrationToken = randomBytes(32).toString('base64url');
+
+    const client = {
+      clientId,
+      name: clientName,
+      description: 'Registered dynamically by an MCP client',
+      enabled: true,
+      publicClient: isPublic,
+      ...(clientSecret ? { secret: clientSecret } : {}),
+      standardFlowEnabled: true,
+      directAccessGrantsEnabled: false,
+      implicitFlowEnabled: false,
+      serviceAccountsEnabled: false,
+      clientAuthenticatorType: 'client-secret',
+      redirectUris,
+      webOrigins: ['+'],
+      protocol: 'openid-connect',
+      attributes: {
+        'pkce.code.challenge.method': 'S256',
+        [ATTRIBUTES.tokenHash]: hashToken(registrationToken).toString('hex'),
+        [ATTRIBUTES.authMethod]: authMethod,
+        [ATTRIBUTES.grantTypes]: grantTypes.join(' '),
+        [ATTRIBUTES.scope]: request.scope ?? '',
+        [ATTRIBUTES.issuedAt]: String(Math.floor(Date.now() / 1000)),
+      },
+      defaultClientScopes: ['profile', 'email'],
+      optionalClientScopes: options.optionalClientScopes ?? [],
+      // Bind tokens to this resource (RFC 8707), like the statically provisioned client
+      protocolMappers: [{
+        name: 'mcp-resource-audience',
+        protocol: 'openid-connect',
+        protocolMapper: 'oidc-audience-mapper',
+        config: {
+          'included.custom.audience': options.resourceUrl,
+          'access.token.claim': 'true',
+          'id.token.claim': 'false',
+          'introspection.token.claim': 'true',
+        },
+      }],
+    };
+
+    const create = await fetch(`${options.adminUrl}/clients`, {
+      method: 'POST',
+      headers: await adminHeaders(),
+      body: JSON.stringify(client),
+    });
+    if (!create.ok) {
+      throw new Error(`Failed to create client ${clientId}: ${create.status} ${await create.text()}`);
+    }
+    console.log(`Dynamic registration created client ${clientId}`);
+
+    return {
+      ...clientInformation(client, registrationToken),
+      ...(clientSecret ? { client_secret: clientSecret, client_secret_expires_at: 0 } : {}),
+    };
+  }
+
+  // The registered client a registration access token belongs to, or undefined if it doesn't match
+  async function authorizeClient(clientId: string, token: string | undefined): Promise<any | undefined> {
+    if (!token || !clientId.startsWith(clientIdPrefix)) {
+      return undefined;
+    }
+
+    const lookup = await fetch(`${options.adminUrl}/clients?clientId=${encodeURIComponent(clientId)}`, { headers: await adminHeaders() });
+    if (!lookup.ok) {
+      throw new Error(`Failed to look up client ${clientId}: ${lookup.status}`);
+    }
+    const client = ((await lookup.json()) as any[]).find((candidate) => candidate.clientId === clientId);
+    const storedHash = client?.attributes?.[ATTRIBUTES.tokenHash];
+    if (typeof storedHash !== 'string' || storedHash.length !== 64) {
+      return undefined;
+    }
+    return timingSafeEqual(hashToken(token), Buffer.from(storedHash, 'hex')) ? client : undefined;
+  }
+
+  // RFC 7592 §2.2: the request carries the client's full metadata, which replaces what was registered
+  async function updateClient(client: any, request: ClientRegistrationRequest, registrationToken: string) {
+    if (request.client_id !== client.clientId) {
+      throw new RegistrationError('invalid_client_metadata', 'client_id does not match the registration');
+    }
+    const { redirectUris, authMethod, grantTypes, clientName } = validate(request);
+    // Switching between public and confidential would need a new secret; register a new client instead
+    if ((authMethod === 'none') !== client.publicClient) {
+      throw new RegistrationError('invalid_client_metadata', 'token_endpoint_auth_method cannot change between none and a client secret');
+    }
+
+    const updated = {
+      ...client,
+      name: clientName,
+      redirectUris,
+      attributes: {
+        ...client.attributes,
+        [ATTRIBUTES.authMethod]: authMethod,
+        [ATTRIBUTES.grantTypes]: grantTypes.join(' '),
+        [ATTRIBUTES.scope]: request.scope ?? '',
+      },
+    };
+    const update = await fetch(`${options.adminUrl}/clients/${client.id}`, {
+      method: 'PUT',
+      headers: await adminHeaders(),
+      body: JSON.stringify(updated),
+    });
+    if (!update.ok) {
+      throw new Error(`Failed to update client ${client.clientId}: ${update.status} ${await update.text()}`);
+    }
+    console.log(`Dynamic registration updated client ${client.clientId}`);
+    return clientInformation(updated, registrationToken);
+  }
+
+  async function deleteClient(client: any) {
+    const response = await fetch(`${options.adminUrl}/clients/${client.id}`, { method: 'DELETE', headers: await adminHeaders() });
+    if (!response.ok) {
+      throw new Error(`Failed to delete client ${client.clientId}: ${response.status} ${await response.text()}`);
+    }
+    console.log(`Dynamic registration deleted client ${client.clientId}`);
+  }
+
+  function fail(res: Response, error: unknown) {
+    if (error instanceof RegistrationError) {
+      console.log(`Dynamic registration rejected: ${error.message}`);
+      res.status(400).json({ error: error.code, error_description: error.message });
+      return;
+    }
+    console.error('Dynamic registration failed:', error);
+    res.status(500).json({ error: 'server_error', error_description: 'Client registration failed' });
+  }
+
+  const router = express.Router();
+  router.use(express.json());
+
+  // Unprotected, restricted by the redirect URI allowlist
+  router.post('/', async (req, res) => {
+    try {
+      res.status(201).json(await registerClient(req.body ?? {}));
+    } catch (error) {
+      fail(res, error);
+    }
+  });
+
+  // RFC 7592: reading, updating and deleting a registration require the registration access token issued with it.
+  // Unknown clients get the same 401 as a wrong token, so client IDs can't be probed.
+  router.all('/:clientId', async (req, res) => {
+    if (!['GET', 'PUT', 'DELETE'].includes(req.method)) {
+      res.set('Allow', 'GET, PUT, DELETE').status(405).end();
+      return;
+    }
+    try {
+      const registrationToken = /^Bearer (\S+)$/i.exec(req.headers.authorization ?? '')?.[1];
+      const client = await authorizeClient(req.params.clientId, registrationToken);
+      if (!client) {
+        res.set('WWW-Authenticate', buildWwwAuthenticate({ error: 'invalid_token' }));
+        res.status(401).json({ error: 'invalid_token', error_description: 'Invalid registration access token' });
+        return;
+      }
+
+      if (req.method === 'GET') {
+        res.json(clientInformation(client, registrationToken!));
+      } else if (req.method === 'PUT') {
+        res.json(await updateClient(client, req.body ?? {}, registrationToken!));
+      } else {
+        await deleteClient(client);
+        res.status(204).end();
+      }
+    } catch (error) {
+      fail(res, error);
+    }
+  });
+
+  return router;
+}
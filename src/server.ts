@@ -1,303 +1,371 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express from 'express';
+import { readFileSync } from 'fs';
+import * as http from 'http';
+import * as https from 'https';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import { z } from 'zod';
-import * as jose from 'jose';
-import cors from 'cors';
-
-// Configuration
-const CONFIG = {
-  port: parseInt(process.env.MCP_PORT || '3001'),
-  keycloak: {
-    baseUrl: process.env.KEYCLOAK_URL || 'http://localhost:8080',
-    realm: process.env.KEYCLOAK_REALM || 'mcp-demo',
-    clientId: process.env.KEYCLOAK_CLIENT_ID || 'mcp-server',
-  },
-  mcpServerUrl: process.env.MCP_SERVER_URL || 'http://localhost:3001',
-};
-
-// Keycloak JWKS for token verification
-let jwks: jose.JWTVerifyGetKey;
-
-async function initializeJwks() {
-  const jwksUrl = `${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}/protocol/openid-connect/certs`;
-  console.log(`Fetching JWKS from: ${jwksUrl}`);
-
+import { createMcpApp } from './app.js';
+import { AuditSink, createAuditLogger, createFileSink, createStdoutSink } from './audit.js';
+import { AccessPolicy, AuthContext, getAuthContext, scopesSupportedBy } from './auth.js';
+import { timingSafeEqual } from 'crypto';
+import { ConfigError, ServerConfig, configFilePath, diagnoseConfig, loadConfig } from './config.js';
+import { createMemoryEventStore } from './events.js';
+import { createLivenessHandler, createReadinessHandler } from './health.js';
+import { createMcpMetrics } from './metrics.js';
+import { connectRedis, createRedisEventStore, createRedisSessionStore } from './redis.js';
+
+// Configuration: defaults, then the optional config file, then environment variables (see src/config.ts)
+const CONFIG = loadServerConfig();
+
+function loadServerConfig(): ServerConfig {
   try {
-    jwks = jose.createRemoteJWKSet(new URL(jwksUrl));
-    console.log('JWKS initialized successfully');
+    return loadConfig({ file: configFilePath() });
   } catch (error) {
-    console.error('Failed to initialize JWKS:', error);
-    throw error;
-  }
-}
-
-// Token verification using Keycloak
-async function verifyAccessToken(token: string): Promise<{ valid: boolean; payload?: jose.JWTPayload; error?: string }> {
-  try {
-    const { payload } = await jose.jwtVerify(token, jwks, {
-      issuer: `${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}`,
-    });
-
-    // Verify the audience includes our client or the token is for this resource
-    const aud = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
-    const azp = payload.azp as string | undefined;
-
-    // Accept if client_id matches or if token was issued for this resource
-    if (!aud.includes(CONFIG.keycloak.clientId) &&
-        !aud.includes('account') &&
-        azp !== CONFIG.keycloak.clientId) {
-      console.log('Token audience/azp mismatch:', { aud, azp, expected: CONFIG.keycloak.clientId });
-      // For development, we'll be lenient with audience validation
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
     }
-
-    return { valid: true, payload };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    console.error('Token verification failed:', errorMessage);
-    return { valid: false, error: errorMessage };
+    throw error;
   }
 }
 
-// OAuth middleware for protecting MCP endpoints
-async function oauthMiddleware(req: Request, res: Response, next: NextFunction) {
-  console.log(`[oauthMiddleware] Received request: ${req.method} ${req.path}`);
-  console.log(`[oauthMiddleware] Headers: ${JSON.stringify(req.headers, null, 2)}`);
-
-  const authHeader = req.headers.authorization;
-
-  if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    // Return 401 with WWW-Authenticate header per MCP spec
-    const resourceMetadataUrl = `${CONFIG.mcpServerUrl}/.well-known/oauth-protected-resource`;
-    res.set('WWW-Authenticate', `Bearer resource_metadata="${resourceMetadataUrl}"`);
-    return res.status(401).json({
-      error: 'unauthorized',
-      error_description: 'Missing or invalid Authorization header'
-    });
-  }
-
-  const token = authHeader.substring(7);
-  const result = await verifyAccessToken(token);
-
-  if (!result.valid) {
-    const resourceMetadataUrl = `${CONFIG.mcpServerUrl}/.well-known/oauth-protected-resource`;
-    res.set('WWW-Authenticate', `Bearer resource_metadata="${resourceMetadataUrl}", error="invalid_token", error_description="${result.error}"`);
-    return res.status(401).json({
-      error: 'invalid_token',
-      error_description: result.error
-    });
-  }
+const SERVER_URL = CONFIG.mcpServerUrl ?? `${CONFIG.tls.certFile ? 'https' : 'http'}://localhost:${CONFIG.port}`;
+const KEYCLOAK_ISSUER = `${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}`;
+const TRUSTED_ISSUERS = CONFIG.auth.trustedIssuers.length > 0 ? CONFIG.auth.trustedIssuers : [KEYCLOAK_ISSUER];
+const KEYCLOAK_ADMIN_URL = `${CONFIG.keycloak.baseUrl}/admin/realms/${CONFIG.keycloak.realm}`;
+
+// Anything not listed here only requires a valid token
+const ACCESS_POLICY: AccessPolicy = {
+  tools: {
+    greet: { scopes: ['mcp:read'] },
+    'set-greeting': { scopes: ['mcp:write'] },
+    'server-status': { realmRoles: ['mcp-admin'] },
+  },
+  resources: {
+    'mcp://server/info': { scopes: ['mcp:read'] },
+  },
+  prompts: {},
+};
 
-  // Attach user info to request
-  (req as any).user = result.payload;
-  next();
-}
+// Shared registry every session's McpServer is built from. Each entry registers one tool,
+// resource or prompt; entries receive the session owner so they can offer per-user tool sets.
+type CapabilityRegistration = (server: McpServer, owner: AuthContext) => void;
 
-// Create MCP Server
-function createMcpServer() {
-  const server = new McpServer({
-    name: 'mcp-oauth-keycloak-server',
-    version: '1.0.0',
-  });
+// Greeting used by `greet`, per session; changed with `set-greeting`
+const GREETINGS = new WeakMap<McpServer, string>();
 
+const CAPABILITY_REGISTRY: CapabilityRegistration[] = [
   // Register a simple greeting tool
-  server.tool(
-    'greet',
-    'Greets the user by name',
-    {
-      name: z.string().describe('The name to greet'),
-    },
-    async ({ name }) => {
-      return {
+  (server) =>
+    server.tool(
+      'greet',
+      'Greets the user by name',
+      {
+        name: z.string().describe('The name to greet'),
+      },
+      async ({ name }) => {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${GREETINGS.get(server) ?? 'Hello'}, ${name}! Welcome to the OAuth-protected MCP server.`,
+            },
+          ],
+        };
+      }
+    ),
+
+  // Register a tool that changes state, behind the mcp:write scope
+  (server) =>
+    server.tool(
+      'set-greeting',
+      'Changes the greeting greet uses for the rest of this session',
+      {
+        greeting: z.string().min(1).max(40).describe('The new greeting, e.g. "Good morning"'),
+      },
+      async ({ greeting }) => {
+        GREETINGS.set(server, greeting);
+        return { content: [{ type: 'text', text: `greet now says "${greeting}"` }] };
+      }
+    ),
+
+  // Register an operational tool, behind the mcp-admin realm role
+  (server) =>
+    server.tool(
+      'server-status',
+      'Reports uptime and memory use of this server instance',
+      {},
+      async () => ({
         content: [
           {
             type: 'text',
-            text: `Hello, ${name}! Welcome to the OAuth-protected MCP server.`,
+            text: JSON.stringify({
+              uptime: Math.round(process.uptime()),
+              memoryBytes: process.memoryUsage().rss,
+              nodeVersion: process.version,
+            }, null, 2),
           },
         ],
-      };
-    }
-  );
+      })
+    ),
 
   // Register a tool that shows the authenticated user
-  server.tool(
-    'whoami',
-    'Returns information about the authenticated user',
-    {},
-    async (_args, extra) => {
-      // Access user info from the session context
-      const sessionId = extra.sessionId;
-      return {
-        content: [
+  (server) =>
+    server.tool(
+      'whoami',
+      'Returns information about the authenticated user',
+      {},
+      async (_args, extra) => {
+        const user = getAuthContext(extra);
+        const identity = {
+          subject: user.subject,
+          username: user.username,
+          email: user.email,
+          name: user.name,
+          clientId: user.clientId,
+          scopes: user.scopes,
+          realmRoles: user.realmRoles,
+          clientRoles: user.clientRoles,
+          issuer: user.issuer,
+          expiresAt: user.expiresAt ? new Date(user.expiresAt * 1000).toISOString() : undefined,
+          sessionId: extra.sessionId,
+        };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(identity, null, 2),
+            },
+          ],
+        };
+      }
+    ),
+
+  // Register a resource
+  (server) =>
+    server.resource(
+      'server-info',
+      'mcp://server/info',
+      async () => ({
+        contents: [
           {
-            type: 'text',
-            text: `Session ID: ${sessionId}\nThis request was authenticated via OAuth with Keycloak.`,
+            uri: 'mcp://server/info',
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              name: 'MCP OAuth Demo Server',
+              version: '1.0.0',
+              oauth: {
+                provider: 'Keycloak',
+                realm: CONFIG.keycloak.realm,
+              },
+            }, null, 2),
           },
         ],
-      };
-    }
-  );
-
-  // Register a resource
-  server.resource(
-    'server-info',
-    'mcp://server/info',
-    async () => ({
-      contents: [
-        {
-          uri: 'mcp://server/info',
-          mimeType: 'application/json',
-          text: JSON.stringify({
-            name: 'MCP OAuth Demo Server',
-            version: '1.0.0',
-            oauth: {
-              provider: 'Keycloak',
-              realm: CONFIG.keycloak.realm,
-            },
-          }, null, 2),
-        },
-      ],
-    })
-  );
+      })
+    ),
 
   // Register a prompt
-  server.prompt(
-    'oauth-test',
-    'A test prompt for the OAuth-protected server',
-    async () => ({
-      messages: [
-        {
-          role: 'user',
-          content: {
-            type: 'text',
-            text: 'You are connected to an OAuth-protected MCP server using Keycloak. The connection is secure.',
+  (server) =>
+    server.prompt(
+      'oauth-test',
+      'A test prompt for the OAuth-protected server',
+      async () => ({
+        messages: [
+          {
+            role: 'user',
+            content: {
+              type: 'text',
+              text: 'You are connected to an OAuth-protected MCP server using Keycloak. The connection is secure.',
+            },
           },
-        },
-      ],
-    })
-  );
-
-  return server;
+        ],
+      })
+    ),
+];
+
+// Register every capability on a session's MCP server
+function registerCapabilities(server: McpServer, owner: AuthContext) {
+  for (const register of CAPABILITY_REGISTRY) {
+    register(server, owner);
+  }
 }
 
 // Main application setup
 async function main() {
-  const app = express();
-
-  // Enable CORS for all origins (required for MCP clients like Cursor)
-  app.use(cors({
-    origin: '*',
-    methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'Accept'],
-    exposedHeaders: ['mcp-session-id', 'WWW-Authenticate'],
-  }));
-
-  app.use(express.json());
-
-  // Initialize JWKS for token verification
-  try {
-    await initializeJwks();
-  } catch (error) {
-    console.warn('Warning: Could not initialize JWKS. Starting server anyway...');
-    console.warn('Make sure Keycloak is running and the realm is configured.');
+  const auditSinks: AuditSink[] = [];
+  if (CONFIG.audit.stdout) {
+    auditSinks.push(createStdoutSink());
   }
-
-  const mcpServer = createMcpServer();
-  const transports = new Map<string, StreamableHTTPServerTransport>();
-
-  // RFC 9728: Protected Resource Metadata endpoint
-  app.get('/.well-known/oauth-protected-resource', (req, res) => {
-    res.json({
-      resource: `${CONFIG.mcpServerUrl}/mcp`,
-      authorization_servers: [
-        `${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}`
-      ],
-      scopes_supported: ['openid', 'profile', 'email'],
-      bearer_methods_supported: ['header'],
-      resource_documentation: 'https://modelcontextprotocol.io/specification/draft/basic/authorization',
-    });
-  });
-
-  // Health check endpoint (unprotected)
-  app.get('/health', (req, res) => {
-    res.json({ status: 'ok', timestamp: new Date().toISOString() });
-  });
-
-  // MCP endpoint - POST for requests
-  app.post('/mcp', oauthMiddleware, async (req, res) => {
-    const sessionId = req.headers['mcp-session-id'] as string | undefined;
-
-    let transport = sessionId ? transports.get(sessionId) : undefined;
-
-    if (!transport) {
-      // Create new transport for this session
-      transport = new StreamableHTTPServerTransport({
-        sessionIdGenerator: () => crypto.randomUUID(),
-        onsessioninitialized: (newSessionId) => {
-          transports.set(newSessionId, transport!);
-          console.log(`New session initialized: ${newSessionId}`);
-        },
-      });
-
-      // Connect the transport to the MCP server
-      await mcpServer.connect(transport);
-    }
-
-    // Handle the request
-    await transport.handleRequest(req, res, req.body);
+  if (CONFIG.audit.file) {
+    auditSinks.push(createFileSink({ path: CONFIG.audit.file, maxBytes: CONFIG.audit.maxFileSize, maxFiles: CONFIG.audit.maxFiles }));
+  }
+  const audit = createAuditLogger(auditSinks);
+  const metrics = CONFIG.metrics.enabled ? createMcpMetrics() : undefined;
+
+  // Sessions (and, with resumability, SSE events) live in this process or in Redis, where every instance sees them
+  const { store: sessionStore, resumable, eventTtl, stateless, ...sessionLimits } = CONFIG.sessions;
+  const redis = sessionStore === 'redis' && !stateless ? connectRedis(CONFIG.redis.url!) : undefined;
+  // Kept apart so shutdown can stop its sweeper; the Redis event store closes with its connection
+  const memoryEventStore = resumable && !stateless && !redis ? createMemoryEventStore({ ttl: eventTtl }) : undefined;
+  const eventStore = redis && resumable
+    ? createRedisEventStore({ command: redis.command, transaction: redis.transaction, prefix: CONFIG.redis.prefix, ttl: eventTtl })
+    : memoryEventStore;
+
+  const mcp = createMcpApp({
+    serverInfo: {
+      name: 'mcp-oauth-keycloak-server',
+      version: '1.0.0',
+    },
+    register: registerCapabilities,
+    auth: {
+      serverUrl: SERVER_URL,
+      trustedIssuers: TRUSTED_ISSUERS,
+      audiences: CONFIG.auth.audiences,
+      strictAudience: CONFIG.auth.strictAudience,
+      allowedClients: CONFIG.auth.allowedClients,
+      requestTimeout: CONFIG.auth.requestTimeout,
+      discoveryRetryDelay: CONFIG.auth.discoveryRetryDelay,
+      mode: CONFIG.introspection.mode,
+      clientId: CONFIG.keycloak.clientId,
+      clientSecret: CONFIG.keycloak.clientSecret,
+      introspectionCacheTtl: CONFIG.introspection.cacheTtl,
+      introspectionCacheMaxEntries: CONFIG.introspection.cacheMaxEntries,
+      accessPolicy: ACCESS_POLICY,
+    },
+    sessions: {
+      ...sessionLimits,
+      store: redis ? createRedisSessionStore({ command: redis.command, transaction: redis.transaction, prefix: CONFIG.redis.prefix }) : undefined,
+    },
+    stateless,
+    eventStore,
+    registration: CONFIG.registration.enabled
+      ? {
+          issuer: KEYCLOAK_ISSUER,
+          adminUrl: KEYCLOAK_ADMIN_URL,
+          clientId: CONFIG.keycloak.clientId,
+          clientSecret: CONFIG.keycloak.clientSecret,
+          redirectUriPatterns: CONFIG.registration.redirectUriPatterns,
+          clientIdPrefix: CONFIG.registration.clientIdPrefix,
+          resourceUrl: `${SERVER_URL}/mcp`,
+          optionalClientScopes: scopesSupportedBy(ACCESS_POLICY).filter((scope) => !['openid', 'profile', 'email'].includes(scope)),
+        }
+      : undefined,
+    corsOrigins: CONFIG.cors.origins,
+    rateLimit: CONFIG.rateLimit.enabled ? CONFIG.rateLimit : undefined,
+    audit,
+    metrics,
   });
 
-  // MCP endpoint - GET for SSE streaming
-  app.get('/mcp', oauthMiddleware, async (req, res) => {
-    const sessionId = req.headers['mcp-session-id'] as string;
-
-    if (!sessionId) {
-      return res.status(400).json({ error: 'Missing mcp-session-id header' });
-    }
-
-    const transport = transports.get(sessionId);
-
-    if (!transport) {
-      return res.status(404).json({ error: 'Session not found' });
+  // Startup self-check: discovery metadata and JWKS for every trusted issuer
+  const issuers = await mcp.verifier.check();
+  if (!issuers.some((issuer) => issuer.ok)) {
+    if (CONFIG.startup.failFast) {
+      console.error('Startup check failed: no trusted issuer is usable (MCP_STARTUP_FAIL_FAST=true)');
+      process.exit(1);
     }
+    console.warn('Warning: No trusted issuer is usable. Starting degraded; /health/ready reports 503 until one recovers.');
+    console.warn('Make sure Keycloak is running and the realm is configured.');
+  }
 
-    await transport.handleRequest(req, res);
-  });
-
-  // MCP endpoint - DELETE for session termination
-  app.delete('/mcp', oauthMiddleware, async (req, res) => {
-    const sessionId = req.headers['mcp-session-id'] as string;
-
-    if (!sessionId) {
-      return res.status(400).json({ error: 'Missing mcp-session-id header' });
-    }
+  // Re-check every issuer periodically: failed ones recover without a token having to arrive first,
+  // and readiness notices when a healthy one becomes unreachable
+  const recheck = setInterval(() => {
+    mcp.verifier.check().catch((error) => console.error('Issuer re-check failed:', error));
+  }, CONFIG.health.checkInterval * 1000);
+  recheck.unref();
 
-    const transport = transports.get(sessionId);
+  const app = express();
+  // Client IPs for rate limiting and the audit log come from X-Forwarded-For only behind trusted proxies
+  app.set('trust proxy', CONFIG.trustProxy);
+
+  // Health endpoints (unprotected). Liveness only reports that the process is up; readiness is 503 while no
+  // trusted issuer can verify tokens. /health is kept as an alias of readiness.
+  const readiness = createReadinessHandler({ verifier: mcp.verifier, sessions: mcp.sessions, maxStaleness: CONFIG.health.maxStaleness });
+  app.get('/health/live', createLivenessHandler());
+  app.get('/health/ready', readiness);
+  app.get('/health', readiness);
+
+  // Prometheus scrape endpoint; requires MCP_METRICS_TOKEN as a bearer token when one is set
+  if (metrics) {
+    const expected = CONFIG.metrics.token ? Buffer.from(`Bearer ${CONFIG.metrics.token}`) : undefined;
+    app.get('/metrics', (req, res) => {
+      const presented = Buffer.from(req.headers.authorization ?? '');
+      if (expected && (presented.length !== expected.length || !timingSafeEqual(presented, expected))) {
+        return res.status(401).set('WWW-Authenticate', 'Bearer realm="metrics"').send('Unauthorized\n');
+      }
+      res.type('text/plain; version=0.0.4; charset=utf-8').send(metrics.registry.render());
+    });
+  }
 
-    if (transport) {
-      await transport.close();
-      transports.delete(sessionId);
-      console.log(`Session terminated: ${sessionId}`);
-    }
+  app.use(mcp.app);
 
-    res.status(204).send();
-  });
+  const httpServer = CONFIG.tls.certFile
+    ? https.createServer({ cert: readFileSync(CONFIG.tls.certFile), key: readFileSync(CONFIG.tls.keyFile!) }, app)
+    : http.createServer(app);
 
   // Start the server
-  app.listen(CONFIG.port, () => {
+  httpServer.listen(CONFIG.port, CONFIG.host, () => {
     console.log(`\n🚀 MCP OAuth Server started!`);
-    console.log(`   Server URL: ${CONFIG.mcpServerUrl}`);
-    console.log(`   MCP endpoint: ${CONFIG.mcpServerUrl}/mcp`);
-    console.log(`   Health check: ${CONFIG.mcpServerUrl}/health`);
+    console.log(`   Server URL: ${SERVER_URL}`);
+    console.log(`   Listening on: ${CONFIG.tls.certFile ? 'https' : 'http'}://${CONFIG.host ?? '*'}:${CONFIG.port}`);
+    console.log(`   MCP endpoint: ${mcp.resourceUrl}`);
+    console.log(`   Health checks: ${SERVER_URL}/health/live, ${SERVER_URL}/health/ready`);
+    console.log(`   Metrics: ${metrics ? `${SERVER_URL}/metrics${CONFIG.metrics.token ? ' (bearer token required)' : ''}` : 'disabled'}`);
     console.log(`\n📋 OAuth Configuration:`);
     console.log(`   Keycloak URL: ${CONFIG.keycloak.baseUrl}`);
     console.log(`   Realm: ${CONFIG.keycloak.realm}`);
     console.log(`   Client ID: ${CONFIG.keycloak.clientId}`);
+    console.log(`   Token validation: ${CONFIG.introspection.mode}`);
+    console.log(`   Dynamic client registration: ${CONFIG.registration.enabled ? `${SERVER_URL}/register` : 'disabled'}`);
+    console.log(`   Accepted audiences: ${mcp.audiences.join(', ')}${CONFIG.auth.strictAudience ? '' : ' (not enforced)'}`);
+    console.log(`   Sessions: ${stateless ? 'stateless' : `${sessionStore}${redis ? ` (${new URL(CONFIG.redis.url!).host})` : ''}${eventStore ? ', resumable' : ''}`}`);
+    console.log(`   CORS origins: ${CONFIG.cors.origins.join(', ')}`);
+    console.log(`   Rate limits: ${CONFIG.rateLimit.enabled ? `${CONFIG.rateLimit.requests} requests per ${CONFIG.rateLimit.window}s per user and client` : 'disabled'}`);
+    console.log(`   Audit log: ${[CONFIG.audit.stdout ? 'stdout' : undefined, CONFIG.audit.file].filter(Boolean).join(', ') || 'disabled'}`);
     console.log(`\n📄 Protected Resource Metadata:`);
-    console.log(`   ${CONFIG.mcpServerUrl}/.well-known/oauth-protected-resource`);
-    console.log(`\n🔑 Keycloak OpenID Configuration:`);
-    console.log(`   ${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}/.well-known/openid-configuration`);
+    console.log(`   ${mcp.resourceMetadataUrl}`);
+    console.log(`\n🔑 Trusted Issuers:`);
+    for (const issuer of issuers) {
+      console.log(issuer.ok
+        ? `   ✅ ${issuer.issuer}${issuer.keys !== undefined ? ` (${issuer.keys} signing keys)` : ''}`
+        : `   ❌ ${issuer.issuer}: ${issuer.error}`);
+    }
+
+    const warnings = diagnoseConfig(CONFIG, SERVER_URL);
+    if (warnings.length > 0) {
+      console.log(`\n⚠️  Configuration warnings:`);
+      for (const warning of warnings) {
+        console.log(`   ${warning}`);
+      }
+    }
   });
+
+  // Graceful shutdown: stop accepting connections, then close every open session
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+    console.log(`\n${signal} received, shutting down (${mcp.sessions.size} active sessions)...`);
+
+    clearInterval(recheck);
+    httpServer.close();
+    await mcp.close();
+    memoryEventStore?.close();
+    await redis?.close();
+    await audit.close();
+    httpServer.closeAllConnections();
+
+    console.log('Shutdown complete');
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,339 @@
+import { Request, Response } from 'express';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ClientCapabilities, Implementation } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLogger } from './audit.js';
+import { AuthContext, getAuthContext } from './auth.js';
+
+// Principal that initialized an MCP session; later requests must come from the same one
+export interface SessionOwner {
+  subject: string;
+  clientId?: string;
+  issuer?: string;
+}
+
+// What the client sent in `initialize`, so another instance can rebuild the session
+export interface SessionClient {
+  protocolVersion?: string;
+  capabilities?: ClientCapabilities;
+  info?: Implementation;
+}
+
+// Serializable session state, kept in the session store and visible to every instance sharing it
+export interface SessionRecord {
+  sessionId: string;
+  owner: SessionOwner;
+  client?: SessionClient;
+  // Epoch milliseconds
+  createdAt: number;
+  lastActivity: number;
+  // Expiry of the most recent token presented for this session (epoch seconds); the session ends with it
+  tokenExpiresAt?: number;
+  // When the session ends unless it sees more activity (epoch milliseconds)
+  expiresAt: number;
+}
+
+// Where session records live. Records may be dropped once expiresAt has passed.
+export interface SessionStore {
+  // Whether other processes see these sessions; if so, an instance shutting down releases its sessions instead of ending them
+  readonly shared: boolean;
+  get(sessionId: string): Promise<SessionRecord | undefined>;
+  set(record: SessionRecord): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  // Unexpired sessions held by a principal, for the per-user cap
+  countOwned(owner: SessionOwner, now: number): Promise<number>;
+  close?(): Promise<void>;
+}
+
+// A session served by this instance
+export interface McpSession {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  owner: SessionOwner;
+  createdAt: Date;
+  lastActivity: Date;
+  tokenExpiresAt?: number;
+}
+
+export interface SessionManagerOptions {
+  // Close sessions with no requests for this long (seconds)
+  idleTimeout?: number;
+  // Hard cap on session age regardless of activity (seconds, 0 disables)
+  maxLifetime?: number;
+  // Concurrent sessions allowed per user (0 disables)
+  maxPerUser?: number;
+  // How often expired sessions are swept (seconds)
+  sweepInterval?: number;
+  // Defaults to an in-memory store; pass a shared one to serve a session from any instance
+  store?: SessionStore;
+  // Rebuild the server and transport for a session another instance created
+  restore?: (record: SessionRecord, user: AuthContext) => Promise<Pick<McpSession, 'server' | 'transport'>>;
+  // Records session.created and session.terminated events
+  audit?: AuditLogger;
+}
+
+export interface SessionManager {
+  // Sessions served by this instance
+  readonly size: number;
+  readonly maxPerUser: number;
+  get(sessionId: string): McpSession | undefined;
+  add(sessionId: string, session: McpSession, client?: SessionClient): Promise<void>;
+  // Forget a session whose transport already closed
+  remove(sessionId: string): Promise<boolean>;
+  close(sessionId: string, reason: string): Promise<void>;
+  // Stop the sweeper and close every session served here; sessions in a shared store stay open for other instances
+  closeAll(reason: string): Promise<void>;
+  // Whether the user may open another session under the per-user cap
+  hasCapacity(user: AuthContext): Promise<boolean>;
+  // Resolve the session named in `mcp-session-id`, rejecting callers other than the principal that created it.
+  // Sessions created by another instance sharing the store are restored here.
+  findOwned(req: Request, res: Response, sessionId: string): Promise<McpSession | undefined>;
+}
+
+export function sessionOwnerOf(user: AuthContext): SessionOwner {
+  return { subject: user.subject, clientId: user.clientId, issuer: user.issuer };
+}
+
+export function isSessionOwner(owner: SessionOwner, user: SessionOwner): boolean {
+  return owner.subject === user.subject && owner.clientId === user.clientId && owner.issuer === user.issuer;
+}
+
+// Session records in this process only; sessions can't move between instances
+export function createMemorySessionStore(): SessionStore {
+  const records = new Map<string, SessionRecord>();
+
+  return {
+    shared: false,
+    // Copies, so callers can't change a stored record without set()
+    get: async (sessionId) => structuredClone(records.get(sessionId)),
+    set: async (record) => {
+      records.set(record.sessionId, structuredClone(record));
+    },
+    delete: async (sessionId) => {
+      records.delete(sessionId);
+    },
+    countOwned: async (owner, now) =>
+      [...records.values()].filter((record) => record.expiresAt > now && isSessionOwner(record.owner, owner)).length,
+  };
+}
+
+// Mark a fresh transport and server as already initialized for an existing session. The SDK only initializes
+// through an `initialize` request, so this sets the private fields that request would have set (as of SDK 1.25), and
+// reads them back through the public getters: an SDK that keeps this state elsewhere fails the restore with an error
+// instead of serving a half-restored session.
+export function restoreInitializedSession(server: McpServer, transport: StreamableHTTPServerTransport, record: SessionRecord) {
+  const inner: unknown = Reflect.get(transport, '_webStandardTransport');
+  if (typeof inner !== 'object' || inner === null || typeof Reflect.get(inner, '_initialized') !== 'boolean') {
+    throw new Error('Cannot restore sessions with this version of the MCP SDK: its transport has no initialization state to set');
+  }
+  Reflect.set(inner, 'sessionId', record.sessionId);
+  Reflect.set(inner, '_initialized', true);
+  Reflect.set(server.server, '_clientCapabilities', record.client?.capabilities);
+  Reflect.set(server.server, '_clientVersion', record.client?.info);
+
+  if (
+    transport.sessionId !== record.sessionId ||
+    server.server.getClientCapabilities() !== record.client?.capabilities ||
+    server.server.getClientVersion() !== record.client?.info
+  ) {
+    throw new Error('Cannot restore sessions with this version of the MCP SDK: it keeps session state in other fields');
+  }
+}
+
+// MCP sessions with idle, lifetime and token expiry, and a per-user cap. Live servers and transports stay in this
+// process; the store holds ownership and expiry, so with a shared store any instance can serve any session.
+export function createSessionManager(options: SessionManagerOptions = {}): SessionManager {
+  const idleTimeout = options.idleTimeout ?? 1800;
+  const maxLifetime = options.maxLifetime ?? 86400;
+  const maxPerUser = options.maxPerUser ?? 10;
+  const sweepInterval = options.sweepInterval ?? 60;
+  const store = options.store ?? createMemorySessionStore();
+
+  const sessions = new Map<string, McpSession>();
+
+  function expiresAt(record: Omit<SessionRecord, 'expiresAt'>): number {
+    return Math.min(
+      record.lastActivity + idleTimeout * 1000,
+      maxLifetime > 0 ? record.createdAt + maxLifetime * 1000 : Infinity,
+      record.tokenExpiresAt !== undefined ? record.tokenExpiresAt * 1000 : Infinity
+    );
+  }
+
+  // Why a session should be closed, or undefined if it is still live
+  function expiryReason(record: SessionRecord, now: number): string | undefined {
+    if (now - record.lastActivity > idleTimeout * 1000) {
+      return 'idle timeout';
+    }
+    if (maxLifetime > 0 && now - record.createdAt > maxLifetime * 1000) {
+      return 'maximum lifetime reached';
+    }
+    if (record.tokenExpiresAt !== undefined && now >= record.tokenExpiresAt * 1000) {
+      return 'access token expired';
+    }
+    return undefined;
+  }
+
+  // Stop serving a session here without ending it
+  async function release(sessionId: string) {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+    sessions.delete(sessionId);
+    // Closing the server also closes its transport
+    await session.server.close();
+  }
+
+  async function terminate(sessionId: string, owner: SessionOwner, reason: string) {
+    await store.delete(sessionId);
+    console.log(`Session terminated: ${sessionId} (${reason})`);
+    options.audit?.log({ event: 'session.terminated', sessionId, subject: owner.subject, reason });
+  }
+
+  async function close(sessionId: string, reason: string) {
+    const session = sessions.get(sessionId);
+    const owner = session?.owner ?? (await store.get(sessionId))?.owner;
+    // Ended in the store first: if that fails the session stays served here, rather than coming back through restore
+    if (owner) {
+      await terminate(sessionId, owner, reason);
+    }
+    await release(sessionId);
+  }
+
+  // Periodically close idle and expired sessions, and let go of sessions another instance ended
+  const sweeper = setInterval(async () => {
+    const now = Date.now();
+    for (const sessionId of sessions.keys()) {
+      try {
+        const record = await store.get(sessionId);
+        const reason = record ? expiryReason(record, now) : undefined;
+        if (!record) {
+          await release(sessionId);
+        } else if (reason) {
+          await close(sessionId, reason);
+        }
+      } catch (error) {
+        console.error(`Failed to sweep session ${sessionId}:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }, sweepInterval * 1000);
+  sweeper.unref();
+
+  return {
+    get size() {
+      return sessions.size;
+    },
+    maxPerUser,
+    get: (sessionId) => sessions.get(sessionId),
+    async add(sessionId, session, client) {
+      const record = {
+        sessionId,
+        owner: session.owner,
+        client,
+        createdAt: session.createdAt.getTime(),
+        lastActivity: session.lastActivity.getTime(),
+        tokenExpiresAt: session.tokenExpiresAt,
+      };
+      // Only served here once every instance can find it
+      await store.set({ ...record, expiresAt: expiresAt(record) });
+      sessions.set(sessionId, session);
+      options.audit?.log({
+        event: 'session.created',
+        sessionId,
+        subject: session.owner.subject,
+        clientId: session.owner.clientId,
+        issuer: session.owner.issuer,
+      });
+    },
+    async remove(sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        return false;
+      }
+      sessions.delete(sessionId);
+      await terminate(sessionId, session.owner, 'transport closed');
+      return true;
+    },
+    close,
+    async closeAll(reason) {
+      clearInterval(sweeper);
+      await Promise.allSettled([...sessions.keys()].map((sessionId) => (store.shared ? release(sessionId) : close(sessionId, reason))));
+      await store.close?.();
+    },
+    async hasCapacity(user) {
+      if (maxPerUser <= 0) {
+        return true;
+      }
+      return (await store.countOwned(sessionOwnerOf(user), Date.now())) < maxPerUser;
+    },
+    async findOwned(req, res, sessionId) {
+      const user = getAuthContext({ authInfo: (req as any).auth });
+      const now = Date.now();
+
+      let record: SessionRecord | undefined;
+      try {
+        record = await store.get(sessionId);
+      } catch (error) {
+        console.error(`Failed to load session ${sessionId}:`, error instanceof Error ? error.message : error);
+        res.status(503).json({ error: 'Session store unavailable' });
+        return undefined;
+      }
+
+      if (!record) {
+        // Ended on another instance
+        await release(sessionId);
+        res.status(404).json({ error: 'Session not found' });
+        return undefined;
+      }
+
+      if (!isSessionOwner(record.owner, user)) {
+        console.log(`Rejected ${req.method} for session ${sessionId}: owned by ${record.owner.subject}, requested by ${user.subject}`);
+        options.audit?.log({
+          event: 'access.denied',
+          subject: user.subject,
+          clientId: user.clientId,
+          method: req.method,
+          target: sessionId,
+          reason: 'Session belongs to a different user',
+        });
+        res.status(403).json({ error: 'Session belongs to a different user' });
+        return undefined;
+      }
+
+      // A refreshed token extends the session's lifetime
+      const reason = expiryReason({ ...record, tokenExpiresAt: user.expiresAt }, now);
+      if (reason) {
+        await close(sessionId, reason).catch((error) => {
+          console.error(`Failed to close session ${sessionId}:`, error instanceof Error ? error.message : error);
+        });
+        res.status(404).json({ error: 'Session not found' });
+        return undefined;
+      }
+
+      let session = sessions.get(sessionId);
+      try {
+        const updated = { ...record, lastActivity: now, tokenExpiresAt: user.expiresAt };
+        await store.set({ ...updated, expiresAt: expiresAt(updated) });
+
+        if (!session) {
+          if (!options.restore) {
+            res.status(404).json({ error: 'Session not found' });
+            return undefined;
+          }
+          const restored = await options.restore(record, user);
+          session = { ...restored, owner: record.owner, createdAt: new Date(record.createdAt), lastActivity: new Date(now) };
+          sessions.set(sessionId, session);
+          console.log(`Session restored on this instance: ${sessionId} (owner: ${record.owner.subject})`);
+        }
+      } catch (error) {
+        console.error(`Failed to resume session ${sessionId}:`, error instanceof Error ? error.message : error);
+        res.status(503).json({ error: 'Session could not be resumed' });
+        return undefined;
+      }
+
+      session.lastActivity = new Date(now);
+      session.tokenExpiresAt = user.expiresAt;
+      return session;
+    },
+  };
+}
@@ -1,22 +1,28 @@
 /**
  * Keycloak Setup Script
  *
- * This script configures Keycloak with:
- * - A realm for MCP demo
- * - A public client for MCP clients (Claude Desktop, IDEs, etc.)
- * - A confidential client for the MCP server
- * - A test user for development
+ * Provisions Keycloak from a declarative spec (keycloak.yaml by default) describing realms,
+ * client scopes, roles, groups, clients (with protocol mappers and service account roles)
+ * and users. The spec is compared with the live server and only the differences are applied.
+ *
+ * Usage:
+ *   npm run keycloak:setup -- [apply] [--config <file>] [--dry-run]
+ *   npm run keycloak:setup -- teardown [--realm <name>]
+ *   npm run keycloak:setup -- export <file> [--realm <name>]
+ *   npm run keycloak:setup -- import <file> [--replace]
+ *
+ * --dry-run prints the plan without changing anything. teardown and export act on the
+ * realms in the spec unless --realm is given. Exports omit client secrets and credentials.
  */
 
+import { readFile, writeFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+
 const KEYCLOAK_URL = process.env.KEYCLOAK_URL || 'http://localhost:8080';
 const ADMIN_USERNAME = process.env.KEYCLOAK_ADMIN || 'admin';
 const ADMIN_PASSWORD = process.env.KEYCLOAK_ADMIN_PASSWORD || 'admin';
 
-const REALM_NAME = 'mcp-demo';
-const MCP_SERVER_CLIENT_ID = 'mcp-server';
-const MCP_PUBLIC_CLIENT_ID = 'mcp-client';
-const TEST_USER_USERNAME = 'testuser';
-const TEST_USER_PASSWORD = 'testpassword';
+const DEFAULT_SPEC_PATH = 'keycloak.yaml';
 
 interface TokenResponse {
   access_token: string;
@@ -24,6 +30,141 @@ interface TokenResponse {
   expires_in: number;
 }
 
+// Spec format. Keys not listed here are passed through to the Keycloak representation.
+
+interface ProtocolMapperSpec {
+  name: string;
+  protocolMapper: string;
+  protocol?: string;
+  config?: Record<string, string>;
+}
+
+interface RoleMappingSpec {
+  realmRoles?: string[];
+  // Client roles keyed by clientId, e.g. { 'realm-management': ['manage-clients'] }
+  clientRoles?: Record<string, string[]>;
+}
+
+interface ClientScopeSpec {
+  name: string;
+  protocolMappers?: ProtocolMapperSpec[];
+  [field: string]: unknown;
+}
+
+interface RoleSpec {
+  name: string;
+  description?: string;
+}
+
+interface GroupSpec extends RoleMappingSpec {
+  name: string;
+}
+
+interface ClientSpec {
+  clientId: string;
+  defaultClientScopes?: string[];
+  optionalClientScopes?: string[];
+  protocolMappers?: ProtocolMapperSpec[];
+  serviceAccountRoles?: RoleMappingSpec;
+  [field: string]: unknown;
+}
+
+interface UserSpec extends RoleMappingSpec {
+  username: string;
+  // Only set when the user is created; existing passwords are never reset
+  password?: string;
+  groups?: string[];
+  [field: string]: unknown;
+}
+
+interface RealmSpec {
+  realm: string;
+  clientScopes?: ClientScopeSpec[];
+  roles?: RoleSpec[];
+  groups?: GroupSpec[];
+  clients?: ClientSpec[];
+  users?: UserSpec[];
+  [field: string]: unknown;
+}
+
+interface KeycloakSpec {
+  realms: RealmSpec[];
+}
+
+type PlanAction = 'create' | 'update' | 'unchanged';
+
+interface PlanContext {
+  token: string;
+  dryRun: boolean;
+  stats: Record<PlanAction, number>;
+}
+
+interface RealmContext extends PlanContext {
+  realm: string;
+  // Whether the object being reconciled exists yet; in a dry run, objects that would be created cannot be queried
+  live: boolean;
+}
+
+// Replace ${VAR} and ${VAR:-default} in every string of the spec
+function interpolate<T>(value: T): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{(\w+)(?::-([^}]*))?\}/g, (_match, name: string, fallback?: string) => {
+      const resolved = process.env[name] ?? fallback;
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${name} is not set`);
+      }
+      return resolved;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item)])) as T;
+  }
+  return value;
+}
+
+async function loadSpec(path: string): Promise<KeycloakSpec> {
+  // YAML is a superset of JSON, so this handles both
+  const spec = interpolate(parseYaml(await readFile(path, 'utf8'))) as KeycloakSpec;
+
+  if (!spec || !Array.isArray(spec.realms)) {
+    throw new Error(`${path}: expected a top-level "realms" list`);
+  }
+  for (const realm of spec.realms) {
+    if (!realm.realm) {
+      throw new Error(`${path}: every realm needs a "realm" name`);
+    }
+  }
+
+  return spec;
+}
+
+// Whether a live value satisfies the spec. Only keys present in the spec are compared,
+// arrays are compared as sets and scalars by their string form (Keycloak stores attributes as strings).
+function matches(desired: unknown, actual: unknown): boolean {
+  if (Array.isArray(desired)) {
+    if (!Array.isArray(actual) || desired.length !== actual.length) {
+      return false;
+    }
+    const wanted = desired.map((item) => JSON.stringify(item)).sort();
+    const current = actual.map((item) => JSON.stringify(item)).sort();
+    return wanted.every((item, i) => item === current[i]);
+  }
+  if (desired && typeof desired === 'object') {
+    if (!actual || typeof actual !== 'object') {
+      return false;
+    }
+    return Object.entries(desired).every(([key, value]) => matches(value, (actual as Record<string, unknown>)[key]));
+  }
+  return desired === actual || (actual !== undefined && actual !== null && String(desired) === String(actual));
+}
+
+function changedFields(desired: Record<string, unknown>, actual: Record<string, unknown>): string[] {
+  return Object.keys(desired).filter((key) => !matches(desired[key], actual[key]));
+}
+
 async function getAdminToken(): Promise<string> {
   console.log('Getting admin access token...');
 
@@ -51,315 +192,688 @@ async function getAdminToken(): Promise<string> {
   return data.access_token;
 }
 
-async function createRealm(token: string): Promise<void> {
-  console.log(`Creating realm: ${REALM_NAME}...`);
-
-  // Check if realm already exists
-  const checkResponse = await fetch(`${KEYCLOAK_URL}/admin/realms/${REALM_NAME}`, {
-    headers: { Authorization: `Bearer ${token}` },
-  });
-
-  if (checkResponse.ok) {
-    console.log(`Realm ${REALM_NAME} already exists, skipping creation.`);
-    return;
-  }
-
-  const response = await fetch(`${KEYCLOAK_URL}/admin/realms`, {
-    method: 'POST',
+// Call the admin REST API under /admin/realms. GET returns undefined for 404, POST returns the new object's ID.
+async function adminRequest<T = any>(token: string, method: string, path: string, body?: unknown): Promise<T> {
+  const response = await fetch(`${KEYCLOAK_URL}/admin/realms${path}`, {
+    method,
     headers: {
       Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
     },
-    body: JSON.stringify({
-      realm: REALM_NAME,
-      enabled: true,
-      displayName: 'MCP Demo Realm',
-      registrationAllowed: false,
-      loginWithEmailAllowed: true,
-      duplicateEmailsAllowed: false,
-      resetPasswordAllowed: true,
-      editUsernameAllowed: false,
-      bruteForceProtected: true,
-    }),
+    body: body !== undefined ? JSON.stringify(body) : undefined,
   });
 
+  if (method === 'GET' && response.status === 404) {
+    return undefined as T;
+  }
+
   if (!response.ok) {
     const error = await response.text();
-    throw new Error(`Failed to create realm: ${response.status} ${error}`);
+    throw new Error(`${method} ${path} failed: ${response.status} ${error}`);
   }
 
-  console.log(`Realm ${REALM_NAME} created successfully.`);
+  if (response.status === 201) {
+    return response.headers.get('location')?.split('/').pop() as T;
+  }
+
+  const text = await response.text();
+  return (text ? JSON.parse(text) : undefined) as T;
 }
 
-async function createClient(
-  token: string,
-  clientId: string,
-  isPublic: boolean,
-  redirectUris: string[],
-  webOrigins: string[]
+// Record a planned change and apply it unless this is a dry run
+async function step<T>(ctx: PlanContext, action: 'create' | 'update', description: string, apply: () => Promise<T>): Promise<T | undefined> {
+  console.log(`  ${action === 'create' ? '+' : '~'} ${action} ${description}`);
+  ctx.stats[action]++;
+  return ctx.dryRun ? undefined : apply();
+}
+
+function unchanged(ctx: PlanContext, description: string): void {
+  console.log(`  = ${description}`);
+  ctx.stats.unchanged++;
+}
+
+async function findClientUuid(ctx: RealmContext, clientId: string): Promise<string | undefined> {
+  if (!ctx.live) {
+    return undefined;
+  }
+  const clients = await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/clients?clientId=${encodeURIComponent(clientId)}`);
+  return clients?.[0]?.id;
+}
+
+async function reconcileProtocolMappers(
+  ctx: RealmContext,
+  owner: string,
+  basePath: string | undefined,
+  mappers: ProtocolMapperSpec[]
 ): Promise<void> {
-  console.log(`Creating client: ${clientId}...`);
+  const existing = ctx.live && basePath ? await adminRequest<any[]>(ctx.token, 'GET', `${basePath}/protocol-mappers/models`) : [];
 
-  const clientConfig = {
-    clientId,
-    name: clientId,
-    description: isPublic
-      ? 'Public client for MCP clients (Claude Desktop, IDEs)'
-      : 'Confidential client for MCP server resource validation',
-    enabled: true,
-    publicClient: isPublic,
-    directAccessGrantsEnabled: true,
-    standardFlowEnabled: true,
-    implicitFlowEnabled: false,
-    serviceAccountsEnabled: !isPublic,
-    authorizationServicesEnabled: false,
-    redirectUris,
-    webOrigins,
-    protocol: 'openid-connect',
-    attributes: {
-      'pkce.code.challenge.method': 'S256',
-      'oauth2.device.authorization.grant.enabled': 'false',
-      'oidc.ciba.grant.enabled': 'false',
-    },
-    defaultClientScopes: ['openid', 'profile', 'email'],
-    optionalClientScopes: [],
-  };
+  for (const mapper of mappers) {
+    const desired = { protocol: 'openid-connect', config: {}, ...mapper };
+    const current = existing.find((m) => m.name === mapper.name);
 
-  // Check if client already exists
-  const checkResponse = await fetch(
-    `${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/clients?clientId=${clientId}`,
-    {
-      headers: { Authorization: `Bearer ${token}` },
+    if (!current) {
+      await step(ctx, 'create', `${owner} mapper ${mapper.name}`, () =>
+        adminRequest(ctx.token, 'POST', `${basePath}/protocol-mappers/models`, desired)
+      );
+      continue;
     }
-  );
 
-  if (checkResponse.ok) {
-    const clients = (await checkResponse.json()) as any[];
-    if (clients.length > 0) {
-      console.log(`Client ${clientId} already exists, updating...`);
-      const clientUuid = clients[0].id;
-      const updateResponse = await fetch(`${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/clients/${clientUuid}`, {
-        method: 'PUT',
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(clientConfig),
+    const changed = changedFields(desired, current);
+    if (changed.length === 0) {
+      unchanged(ctx, `${owner} mapper ${mapper.name}`);
+      continue;
+    }
+
+    await step(ctx, 'update', `${owner} mapper ${mapper.name} (${changed.join(', ')})`, () =>
+      adminRequest(ctx.token, 'PUT', `${basePath}/protocol-mappers/models/${current.id}`, {
+        ...current,
+        ...desired,
+        config: { ...current.config, ...desired.config },
+      })
+    );
+  }
+}
+
+// Role mappings are additive: missing roles are granted, extra roles are left alone
+async function reconcileRoleMappings(
+  ctx: RealmContext,
+  owner: string,
+  basePath: string | undefined,
+  spec: RoleMappingSpec
+): Promise<void> {
+  if (spec.realmRoles?.length) {
+    const current = ctx.live && basePath ? await adminRequest<any[]>(ctx.token, 'GET', `${basePath}/role-mappings/realm`) : [];
+    const missing = spec.realmRoles.filter((role) => !current.some((r) => r.name === role));
+
+    if (missing.length > 0) {
+      await step(ctx, 'update', `${owner} realm roles (+${missing.join(', ')})`, async () => {
+        const roles = await Promise.all(
+          missing.map((role) => adminRequest(ctx.token, 'GET', `/${ctx.realm}/roles/${encodeURIComponent(role)}`))
+        );
+        await adminRequest(ctx.token, 'POST', `${basePath}/role-mappings/realm`, roles);
       });
+    }
+  }
 
-      if (!updateResponse.ok) {
-        const error = await updateResponse.text();
-        throw new Error(`Failed to update client ${clientId}: ${updateResponse.status} ${error}`);
-      }
+  for (const [clientId, roleNames] of Object.entries(spec.clientRoles ?? {})) {
+    const clientUuid = await findClientUuid(ctx, clientId);
+    const current = ctx.live && basePath && clientUuid
+      ? await adminRequest<any[]>(ctx.token, 'GET', `${basePath}/role-mappings/clients/${clientUuid}`)
+      : [];
+    const missing = roleNames.filter((role) => !current.some((r) => r.name === role));
+
+    if (missing.length > 0) {
+      await step(ctx, 'update', `${owner} ${clientId} roles (+${missing.join(', ')})`, async () => {
+        // The client may have been created earlier in this run
+        const uuid = clientUuid ?? (await findClientUuid({ ...ctx, live: true }, clientId));
+        if (!uuid) {
+          throw new Error(`Client ${clientId} not found`);
+        }
+        const roles = await Promise.all(
+          missing.map((role) => adminRequest(ctx.token, 'GET', `/${ctx.realm}/clients/${uuid}/roles/${encodeURIComponent(role)}`))
+        );
+        await adminRequest(ctx.token, 'POST', `${basePath}/role-mappings/clients/${uuid}`, roles);
+      });
+    }
+  }
+}
+
+async function reconcileClientScope(ctx: RealmContext, spec: ClientScopeSpec): Promise<void> {
+  const { protocolMappers = [], ...fields } = spec;
+  const desired = { protocol: 'openid-connect', ...fields };
+
+  const scopes = ctx.live ? await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/client-scopes`) : [];
+  const existing = scopes.find((s) => s.name === spec.name);
+  let scopeId: string | undefined = existing?.id;
 
-      console.log(`Client ${clientId} updated successfully.`);
-      return;
+  if (!existing) {
+    scopeId = await step(ctx, 'create', `client scope ${spec.name}`, () =>
+      adminRequest<string>(ctx.token, 'POST', `/${ctx.realm}/client-scopes`, desired)
+    );
+  } else {
+    const changed = changedFields(desired, existing);
+    if (changed.length > 0) {
+      await step(ctx, 'update', `client scope ${spec.name} (${changed.join(', ')})`, () =>
+        adminRequest(ctx.token, 'PUT', `/${ctx.realm}/client-scopes/${existing.id}`, { ...existing, ...desired })
+      );
+    } else {
+      unchanged(ctx, `client scope ${spec.name}`);
     }
   }
 
-  const response = await fetch(`${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/clients`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(clientConfig),
+  await reconcileProtocolMappers(
+    { ...ctx, live: ctx.live && !!scopeId },
+    `client scope ${spec.name}`,
+    scopeId && `/${ctx.realm}/client-scopes/${scopeId}`,
+    protocolMappers
+  );
+}
+
+async function reconcileRole(ctx: RealmContext, spec: RoleSpec): Promise<void> {
+  const existing = ctx.live
+    ? await adminRequest(ctx.token, 'GET', `/${ctx.realm}/roles/${encodeURIComponent(spec.name)}`)
+    : undefined;
+
+  if (!existing) {
+    await step(ctx, 'create', `realm role ${spec.name}`, () =>
+      adminRequest(ctx.token, 'POST', `/${ctx.realm}/roles`, spec)
+    );
+    return;
+  }
+
+  const changed = changedFields({ ...spec }, existing);
+  if (changed.length === 0) {
+    unchanged(ctx, `realm role ${spec.name}`);
+    return;
+  }
+
+  await step(ctx, 'update', `realm role ${spec.name} (${changed.join(', ')})`, () =>
+    adminRequest(ctx.token, 'PUT', `/${ctx.realm}/roles/${encodeURIComponent(spec.name)}`, { ...existing, ...spec })
+  );
+}
+
+async function findGroupId(ctx: RealmContext, name: string): Promise<string | undefined> {
+  if (!ctx.live) {
+    return undefined;
+  }
+  const groups = await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/groups?search=${encodeURIComponent(name)}`);
+  return groups?.find((g) => g.name === name)?.id;
+}
+
+async function reconcileGroup(ctx: RealmContext, spec: GroupSpec): Promise<void> {
+  const { name, realmRoles, clientRoles } = spec;
+  let groupId = await findGroupId(ctx, name);
+
+  if (!groupId) {
+    groupId = await step(ctx, 'create', `group ${name}`, () =>
+      adminRequest<string>(ctx.token, 'POST', `/${ctx.realm}/groups`, { name })
+    );
+  } else {
+    unchanged(ctx, `group ${name}`);
+  }
+
+  await reconcileRoleMappings(
+    { ...ctx, live: ctx.live && !!groupId },
+    `group ${name}`,
+    groupId && `/${ctx.realm}/groups/${groupId}`,
+    { realmRoles, clientRoles }
+  );
+}
+
+// Assigned scopes are additive, so Keycloak's built-in defaults (roles, web-origins, ...) stay in place
+async function reconcileClientScopeLinks(
+  ctx: RealmContext,
+  clientId: string,
+  clientUuid: string | undefined,
+  kind: 'default' | 'optional',
+  scopeNames: string[]
+): Promise<void> {
+  if (scopeNames.length === 0) {
+    return;
+  }
+
+  const current = ctx.live && clientUuid
+    ? await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/clients/${clientUuid}/${kind}-client-scopes`)
+    : [];
+  const missing = scopeNames.filter((name) => !current.some((s) => s.name === name));
+
+  if (missing.length === 0) {
+    return;
+  }
+
+  await step(ctx, 'update', `client ${clientId} ${kind} scopes (+${missing.join(', ')})`, async () => {
+    const scopes = await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/client-scopes`);
+    const otherKind = kind === 'default' ? 'optional' : 'default';
+    const assignedAsOther = await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/clients/${clientUuid}/${otherKind}-client-scopes`);
+
+    for (const name of missing) {
+      const scope = scopes.find((s) => s.name === name);
+      if (!scope) {
+        throw new Error(`Client scope ${name} not found`);
+      }
+      // A scope can only be default or optional, not both
+      if (assignedAsOther.some((s) => s.id === scope.id)) {
+        await adminRequest(ctx.token, 'DELETE', `/${ctx.realm}/clients/${clientUuid}/${otherKind}-client-scopes/${scope.id}`);
+      }
+      await adminRequest(ctx.token, 'PUT', `/${ctx.realm}/clients/${clientUuid}/${kind}-client-scopes/${scope.id}`);
+    }
   });
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to create client ${clientId}: ${response.status} ${error}`);
+async function reconcileClient(ctx: RealmContext, spec: ClientSpec): Promise<void> {
+  const {
+    clientId,
+    defaultClientScopes = [],
+    optionalClientScopes = [],
+    protocolMappers = [],
+    serviceAccountRoles,
+    ...fields
+  } = spec;
+  const desired = { clientId, protocol: 'openid-connect', ...fields };
+
+  const existing = ctx.live
+    ? (await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/clients?clientId=${encodeURIComponent(clientId)}`))[0]
+    : undefined;
+  let clientUuid: string | undefined = existing?.id;
+
+  if (!existing) {
+    clientUuid = await step(ctx, 'create', `client ${clientId}`, () =>
+      adminRequest<string>(ctx.token, 'POST', `/${ctx.realm}/clients`, desired)
+    );
+  } else {
+    const changed = changedFields(desired, existing);
+    if (changed.length > 0) {
+      await step(ctx, 'update', `client ${clientId} (${changed.join(', ')})`, () =>
+        adminRequest(ctx.token, 'PUT', `/${ctx.realm}/clients/${existing.id}`, {
+          ...existing,
+          ...desired,
+          attributes: { ...existing.attributes, ...(fields.attributes as object | undefined) },
+        })
+      );
+    } else {
+      unchanged(ctx, `client ${clientId}`);
+    }
   }
 
-  console.log(`Client ${clientId} created successfully.`);
+  const clientCtx = { ...ctx, live: ctx.live && !!clientUuid };
+  const basePath = clientUuid && `/${ctx.realm}/clients/${clientUuid}`;
+
+  await reconcileProtocolMappers(clientCtx, `client ${clientId}`, basePath, protocolMappers);
+  await reconcileClientScopeLinks(clientCtx, clientId, clientUuid, 'default', defaultClientScopes);
+  await reconcileClientScopeLinks(clientCtx, clientId, clientUuid, 'optional', optionalClientScopes);
+
+  if (serviceAccountRoles) {
+    const serviceAccount = clientCtx.live
+      ? await adminRequest(ctx.token, 'GET', `${basePath}/service-account-user`)
+      : undefined;
+    await reconcileRoleMappings(
+      { ...clientCtx, live: clientCtx.live && !!serviceAccount },
+      `client ${clientId} service account`,
+      serviceAccount && `/${ctx.realm}/users/${serviceAccount.id}`,
+      serviceAccountRoles
+    );
+  }
 }
 
-async function createUser(token: string): Promise<void> {
-  console.log(`Creating test user: ${TEST_USER_USERNAME}...`);
+async function reconcileUser(ctx: RealmContext, spec: UserSpec): Promise<void> {
+  const { username, password, realmRoles, clientRoles, groups = [], ...fields } = spec;
+  const desired = { username, enabled: true, ...fields };
+
+  const existing = ctx.live
+    ? (await adminRequest<any[]>(ctx.token, 'GET', `/${ctx.realm}/users?username=${encodeURIComponent(username)}&exact=true`))[0]
+    : undefined;
+  let userId: string | undefined = existing?.id;
+
+  if (!existing) {
+    userId = await step(ctx, 'create', `user ${username}`, () =>
+      adminRequest<string>(ctx.token, 'POST', `/${ctx.realm}/users`, {
+        ...desired,
+        credentials: password ? [{ type: 'password', value: password, temporary: false }] : undefined,
+      })
+    );
+  } else {
+    const changed = changedFields(desired, existing);
+    if (changed.length > 0) {
+      await step(ctx, 'update', `user ${username} (${changed.join(', ')})`, () =>
+        adminRequest(ctx.token, 'PUT', `/${ctx.realm}/users/${existing.id}`, desired)
+      );
+    } else {
+      unchanged(ctx, `user ${username}`);
+    }
+  }
 
-  // Check if user already exists
-  const checkResponse = await fetch(
-    `${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/users?username=${TEST_USER_USERNAME}`,
-    {
-      headers: { Authorization: `Bearer ${token}` },
+  const userCtx = { ...ctx, live: ctx.live && !!userId };
+  const basePath = userId && `/${ctx.realm}/users/${userId}`;
+
+  await reconcileRoleMappings(userCtx, `user ${username}`, basePath, { realmRoles, clientRoles });
+
+  if (groups.length > 0) {
+    const current = userCtx.live ? await adminRequest<any[]>(ctx.token, 'GET', `${basePath}/groups`) : [];
+    const missing = groups.filter((name) => !current.some((g) => g.name === name));
+
+    if (missing.length > 0) {
+      await step(ctx, 'update', `user ${username} groups (+${missing.join(', ')})`, async () => {
+        for (const name of missing) {
+          const groupId = await findGroupId({ ...ctx, live: true }, name);
+          if (!groupId) {
+            throw new Error(`Group ${name} not found`);
+          }
+          await adminRequest(ctx.token, 'PUT', `${basePath}/groups/${groupId}`);
+        }
+      });
+    }
+  }
+}
+
+async function reconcileRealm(ctx: PlanContext, spec: RealmSpec): Promise<void> {
+  const { realm, clientScopes = [], roles = [], groups = [], clients = [], users = [], ...settings } = spec;
+  console.log(`\nRealm ${realm}:`);
+
+  const existing = await adminRequest(ctx.token, 'GET', `/${realm}`);
+
+  if (!existing) {
+    await step(ctx, 'create', `realm ${realm}`, () =>
+      adminRequest(ctx.token, 'POST', '', { realm, enabled: true, ...settings })
+    );
+  } else {
+    const changed = changedFields(settings, existing);
+    if (changed.length > 0) {
+      await step(ctx, 'update', `realm ${realm} (${changed.join(', ')})`, () =>
+        adminRequest(ctx.token, 'PUT', `/${realm}`, settings)
+      );
+    } else {
+      unchanged(ctx, `realm ${realm}`);
     }
+  }
+
+  // Order matters: clients reference scopes, groups and users reference roles, users reference groups
+  const realmCtx: RealmContext = { ...ctx, realm, live: !!existing || !ctx.dryRun };
+  for (const scope of clientScopes) {
+    await reconcileClientScope(realmCtx, scope);
+  }
+  for (const role of roles) {
+    await reconcileRole(realmCtx, role);
+  }
+  for (const group of groups) {
+    await reconcileGroup(realmCtx, group);
+  }
+  for (const client of clients) {
+    await reconcileClient(realmCtx, client);
+  }
+  for (const user of users) {
+    await reconcileUser(realmCtx, user);
+  }
+}
+
+async function getClientSecret(token: string, realm: string, clientId: string): Promise<string | undefined> {
+  const clients = await adminRequest<any[]>(token, 'GET', `/${realm}/clients?clientId=${encodeURIComponent(clientId)}`);
+  if (!clients?.length) {
+    return undefined;
+  }
+
+  const credential = await adminRequest<{ value?: string }>(token, 'GET', `/${realm}/clients/${clients[0].id}/client-secret`);
+  return credential?.value;
+}
+
+// Delete the realm; Keycloak removes its clients, scopes, roles, groups and users with it
+async function teardownRealm(token: string, realm: string): Promise<void> {
+  if (realm === 'master') {
+    throw new Error('Refusing to delete the master realm');
+  }
+
+  const existing = await adminRequest(token, 'GET', `/${realm}`);
+  if (!existing) {
+    console.log(`  = realm ${realm} does not exist`);
+    return;
+  }
+
+  await adminRequest(token, 'DELETE', `/${realm}`);
+  console.log(`  - deleted realm ${realm}`);
+}
+
+// Drop credentials from an exported realm. Keycloak masks them as '**********', which would
+// otherwise be imported as the literal value; without them Keycloak generates fresh ones.
+function stripSecrets(realm: any): any {
+  for (const client of realm.clients ?? []) {
+    delete client.secret;
+  }
+  for (const provider of realm.identityProviders ?? []) {
+    delete provider.config?.clientSecret;
+  }
+  if (realm.smtpServer) {
+    delete realm.smtpServer.password;
+  }
+  // Signing keys are regenerated on import
+  if (realm.components) {
+    delete realm.components['org.keycloak.keys.KeyProvider'];
+  }
+  for (const user of realm.users ?? []) {
+    delete user.credentials;
+  }
+  return realm;
+}
+
+async function exportRealm(token: string, realm: string): Promise<any> {
+  const exported = await adminRequest(
+    token,
+    'POST',
+    `/${realm}/partial-export?exportClients=true&exportGroupsAndRoles=true`
   );
 
-  if (checkResponse.ok) {
-    const users = (await checkResponse.json()) as any[];
-    if (users.length > 0) {
-      console.log(`User ${TEST_USER_USERNAME} already exists, skipping creation.`);
-      return;
+  // Partial export leaves users out, so add them with their role and group memberships
+  const clientIds = new Map<string, string>(exported.clients.map((c: any) => [c.id, c.clientId]));
+  const serviceAccounts = new Map<string, string>();
+  for (const client of exported.clients.filter((c: any) => c.serviceAccountsEnabled)) {
+    const user = await adminRequest(token, 'GET', `/${realm}/clients/${client.id}/service-account-user`);
+    if (user) {
+      serviceAccounts.set(user.id, client.clientId);
     }
   }
 
-  // Create user
-  const userResponse = await fetch(`${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/users`, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      username: TEST_USER_USERNAME,
-      email: `${TEST_USER_USERNAME}@example.com`,
-      firstName: 'Test',
-      lastName: 'User',
-      enabled: true,
-      emailVerified: true,
-      credentials: [
-        {
-          type: 'password',
-          value: TEST_USER_PASSWORD,
-          temporary: false,
-        },
-      ],
-    }),
-  });
+  const users = await adminRequest<any[]>(token, 'GET', `/${realm}/users?briefRepresentation=false&max=10000`);
+  exported.users = [];
+  for (const user of users) {
+    const mappings = await adminRequest(token, 'GET', `/${realm}/users/${user.id}/role-mappings`);
+    const groups = await adminRequest<any[]>(token, 'GET', `/${realm}/users/${user.id}/groups`);
+    const { access, createdTimestamp, ...fields } = user;
+
+    exported.users.push({
+      ...fields,
+      serviceAccountClientId: serviceAccounts.get(user.id),
+      realmRoles: (mappings?.realmMappings ?? []).map((r: any) => r.name),
+      clientRoles: Object.fromEntries(
+        Object.values(mappings?.clientMappings ?? {}).map((m: any) => [
+          clientIds.get(m.id) ?? m.client,
+          m.mappings.map((r: any) => r.name),
+        ])
+      ),
+      groups: groups.map((g) => g.path),
+    });
+  }
+
+  return stripSecrets(exported);
+}
 
-  if (!userResponse.ok) {
-    const error = await userResponse.text();
-    throw new Error(`Failed to create user: ${userResponse.status} ${error}`);
+async function importRealm(token: string, path: string, replace: boolean): Promise<string> {
+  const realm = parseYaml(await readFile(path, 'utf8'));
+  if (!realm?.realm) {
+    throw new Error(`${path}: expected a realm representation with a "realm" name`);
   }
 
-  console.log(`User ${TEST_USER_USERNAME} created successfully.`);
+  const existing = await adminRequest(token, 'GET', `/${realm.realm}`);
+  if (existing) {
+    if (!replace) {
+      throw new Error(`Realm ${realm.realm} already exists; pass --replace to delete it first`);
+    }
+    await teardownRealm(token, realm.realm);
+  }
+
+  // Imported as given: secrets in the file are the operator's choice, and exports already leave theirs out
+  await adminRequest(token, 'POST', '', realm);
+  console.log(`  + imported realm ${realm.realm} from ${path}`);
+  return realm.realm;
+}
+
+type Command = 'apply' | 'teardown' | 'export' | 'import';
+
+interface CliOptions {
+  command: Command;
+  configPath: string;
+  dryRun: boolean;
+  realms: string[];
+  file?: string;
+  replace: boolean;
 }
 
-async function createCustomScopes(token: string): Promise<void> {
-  console.log('Creating custom MCP scopes...');
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { command: 'apply', configPath: DEFAULT_SPEC_PATH, dryRun: false, realms: [], replace: false };
+  const args = [...argv];
 
-  const scopes = [
-    { name: 'mcp:read', description: 'Read access to MCP resources' },
-    { name: 'mcp:write', description: 'Write access to MCP resources' },
-  ];
+  if (args[0] && !args[0].startsWith('--')) {
+    const command = args.shift() as Command;
+    if (!['apply', 'teardown', 'export', 'import'].includes(command)) {
+      throw new Error(`Unknown command: ${command}`);
+    }
+    options.command = command;
+  }
 
-  for (const scope of scopes) {
-    // Check if scope exists
-    const checkResponse = await fetch(
-      `${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/client-scopes`,
-      {
-        headers: { Authorization: `Bearer ${token}` },
+  for (let i = 0; i < args.length; i++) {
+    const value = () => {
+      const next = args[++i];
+      if (!next) {
+        throw new Error(`${args[i - 1]} requires a value`);
       }
-    );
+      return next;
+    };
+
+    if (args[i] === '--dry-run') {
+      options.dryRun = true;
+    } else if (args[i] === '--replace') {
+      options.replace = true;
+    } else if (args[i] === '--config') {
+      options.configPath = value();
+    } else if (args[i] === '--realm') {
+      options.realms.push(value());
+    } else if (!args[i].startsWith('--') && !options.file) {
+      options.file = args[i];
+    } else {
+      throw new Error(`Unknown argument: ${args[i]}`);
+    }
+  }
 
-    if (checkResponse.ok) {
-      const existingScopes = (await checkResponse.json()) as any[];
-      if (existingScopes.some((s) => s.name === scope.name)) {
-        console.log(`Scope ${scope.name} already exists, skipping.`);
-        continue;
+  if ((options.command === 'export' || options.command === 'import') && !options.file) {
+    throw new Error(`${options.command} requires a file path`);
+  }
+  if (options.dryRun && options.command !== 'apply') {
+    throw new Error('--dry-run is only supported by apply');
+  }
+
+  return options;
+}
+
+async function waitForKeycloak(): Promise<void> {
+  // Wait for Keycloak to be ready (check master realm endpoint)
+  console.log('Waiting for Keycloak to be ready...');
+  let ready = false;
+  for (let i = 0; i < 30; i++) {
+    try {
+      const response = await fetch(`${KEYCLOAK_URL}/realms/master`);
+      if (response.ok) {
+        ready = true;
+        break;
       }
+    } catch {
+      // Keycloak not ready yet
     }
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+    process.stdout.write('.');
+  }
+  console.log('');
 
-    const response = await fetch(`${KEYCLOAK_URL}/admin/realms/${REALM_NAME}/client-scopes`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        name: scope.name,
-        description: scope.description,
-        protocol: 'openid-connect',
-        attributes: {
-          'include.in.token.scope': 'true',
-          'display.on.consent.screen': 'true',
-        },
-      }),
-    });
+  if (!ready) {
+    throw new Error('Keycloak did not become ready in time');
+  }
 
-    if (response.ok) {
-      console.log(`Scope ${scope.name} created successfully.`);
-    } else {
-      console.warn(`Failed to create scope ${scope.name}: ${response.status}`);
+  console.log('Keycloak is ready!\n');
+}
+
+async function apply(token: string, spec: KeycloakSpec, dryRun: boolean): Promise<void> {
+  const ctx: PlanContext = { token, dryRun, stats: { create: 0, update: 0, unchanged: 0 } };
+  for (const realm of spec.realms) {
+    await reconcileRealm(ctx, realm);
+  }
+
+  const { create, update, unchanged: same } = ctx.stats;
+  console.log(`\nPlan: ${create} to create, ${update} to update, ${same} unchanged.`);
+
+  if (dryRun) {
+    console.log('Dry run: no changes were applied.');
+    return;
+  }
+
+  console.log('\n✅ Keycloak setup completed successfully!\n');
+  console.log('Configuration Summary:');
+  console.log('----------------------');
+  for (const realm of spec.realms) {
+    console.log(`Realm: ${realm.realm}`);
+    for (const client of realm.clients ?? []) {
+      if (client.publicClient === false) {
+        const secret = await getClientSecret(token, realm.realm, client.clientId);
+        console.log(`  Confidential Client: ${client.clientId} (secret: ${secret ?? 'unavailable'})`);
+      } else {
+        console.log(`  Public Client: ${client.clientId}`);
+      }
     }
+    for (const user of realm.users ?? []) {
+      console.log(`  User: ${user.username}${user.password ? ` / ${user.password}` : ''}`);
+    }
+    console.log(`  OpenID Configuration: ${KEYCLOAK_URL}/realms/${realm.realm}/.well-known/openid-configuration`);
   }
+  console.log(`\nTo validate tokens via introspection, start the server with:`);
+  console.log(`KEYCLOAK_CLIENT_SECRET=<mcp-server secret> MCP_TOKEN_VALIDATION=jwks+introspection npm run dev`);
 }
 
 async function main() {
   console.log('\n🔧 Keycloak Setup for MCP OAuth Demo\n');
-  console.log(`Keycloak URL: ${KEYCLOAK_URL}`);
-  console.log(`Realm: ${REALM_NAME}\n`);
 
   try {
-    // Wait for Keycloak to be ready (check master realm endpoint)
-    console.log('Waiting for Keycloak to be ready...');
-    let ready = false;
-    for (let i = 0; i < 30; i++) {
-      try {
-        const response = await fetch(`${KEYCLOAK_URL}/realms/master`);
-        if (response.ok) {
-          ready = true;
-          break;
-        }
-      } catch {
-        // Keycloak not ready yet
-      }
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-      process.stdout.write('.');
+    const options = parseArgs(process.argv.slice(2));
+
+    // Realm names come from --realm, falling back to the spec
+    let realms = options.realms;
+    let spec: KeycloakSpec | undefined;
+    if (options.command === 'apply' || (options.command !== 'import' && realms.length === 0)) {
+      spec = await loadSpec(options.configPath);
+      realms = realms.length > 0 ? realms : spec.realms.map((r) => r.realm);
     }
-    console.log('');
 
-    if (!ready) {
-      throw new Error('Keycloak did not become ready in time');
+    console.log(`Keycloak URL: ${KEYCLOAK_URL}`);
+    console.log(`Command: ${options.command}${options.dryRun ? ' (dry run)' : ''}`);
+    if (options.command === 'apply') {
+      console.log(`Spec: ${options.configPath}`);
     }
+    if (realms.length > 0) {
+      console.log(`Realms: ${realms.join(', ')}`);
+    }
+    console.log('');
 
-    console.log('Keycloak is ready!\n');
+    await waitForKeycloak();
 
     // Get admin token
     const token = await getAdminToken();
 
-    // Create realm
-    await createRealm(token);
-
-    // Create custom scopes
-    await createCustomScopes(token);
-
-    // Create public client for MCP clients (Claude Desktop, IDEs, etc.)
-    await createClient(
-      token,
-      MCP_PUBLIC_CLIENT_ID,
-      true, // public client
-      [
-        'http://localhost:*',
-        'http://127.0.0.1:*',
-        'https://localhost:*',
-        'https://127.0.0.1:*',
-        // Common callback paths for various MCP clients
-        'http://localhost:3000/callback',
-        'http://127.0.0.1:3000/callback',
-        'http://localhost:8888/callback',
-        'http://127.0.0.1:8888/callback',
-        // Add Cursor's redirect URI
-        'cursor://anysphere.cursor-mcp/oauth/callback',
-      ],
-      ['http://localhost:*', 'http://127.0.0.1:*']
-    );
+    switch (options.command) {
+      case 'apply':
+        await apply(token, spec!, options.dryRun);
+        break;
 
-    // Create confidential client for MCP server (token introspection)
-    await createClient(
-      token,
-      MCP_SERVER_CLIENT_ID,
-      false, // confidential client
-      [],
-      []
-    );
+      case 'teardown':
+        for (const realm of realms) {
+          await teardownRealm(token, realm);
+        }
+        console.log('\n✅ Teardown completed\n');
+        break;
 
-    // Create test user
-    await createUser(token);
-
-    console.log('\n✅ Keycloak setup completed successfully!\n');
-    console.log('Configuration Summary:');
-    console.log('----------------------');
-    console.log(`Realm: ${REALM_NAME}`);
-    console.log(`Public Client ID: ${MCP_PUBLIC_CLIENT_ID}`);
-    console.log(`Server Client ID: ${MCP_SERVER_CLIENT_ID}`);
-    console.log(`Test User: ${TEST_USER_USERNAME} / ${TEST_USER_PASSWORD}`);
-    console.log(`\nOpenID Configuration URL:`);
-    console.log(`${KEYCLOAK_URL}/realms/${REALM_NAME}/.well-known/openid-configuration`);
-    console.log(`\nAuthorization URL:`);
-    console.log(`${KEYCLOAK_URL}/realms/${REALM_NAME}/protocol/openid-connect/auth`);
-    console.log(`\nToken URL:`);
-    console.log(`${KEYCLOAK_URL}/realms/${REALM_NAME}/protocol/openid-connect/token`);
+      case 'export': {
+        if (realms.length !== 1) {
+          throw new Error('export needs exactly one realm; pass --realm <name>');
+        }
+        const exported = await exportRealm(token, realms[0]);
+        await writeFile(options.file!, JSON.stringify(exported, null, 2) + '\n');
+        console.log(`  > exported realm ${realms[0]} to ${options.file} (${exported.clients.length} clients, ${exported.users.length} users)`);
+        console.log('\n✅ Export completed (client secrets and credentials are not included)\n');
+        break;
+      }
+
+      case 'import': {
+        const realm = await importRealm(token, options.file!, options.replace);
+        console.log('\n✅ Import completed\n');
+        console.log(`OpenID Configuration: ${KEYCLOAK_URL}/realms/${realm}/.well-known/openid-configuration`);
+        console.log('Client secrets were regenerated; read the new ones from the admin console.');
+        break;
+      }
+    }
   } catch (error) {
     console.error('\n❌ Setup failed:', error);
     process.exit(1);
@@ -1,26 +1,51 @@
 /**
  * MCP OAuth Test Client
  *
- * This script demonstrates the OAuth flow for connecting to an MCP server
- * protected by Keycloak authentication.
+ * Command-line client for MCP servers protected by Keycloak authentication.
  *
- * It performs:
- * 1. OAuth authorization code flow with PKCE
+ * Without a command it runs an end-to-end connection test:
+ * 1. Authentication (authorization code flow with PKCE by default)
  * 2. Token exchange
  * 3. MCP connection with the obtained token
+ *
+ * Usage:
+ *   npx tsx src/test-client.ts [command] [--auth browser|device|client-credentials|password|token] [options]
+ *
+ * Commands:
+ *   tools list | tools call <name> [--args <json>]
+ *   resources list | resources read <uri>
+ *   prompts list | prompts get <name> [--args <json>]
+ *   repl                    Interactive shell accepting the commands above
+ *   logout
+ *
+ * Options:
+ *   --json                  Print raw JSON results
+ *   --client-id <id>        OAuth client (default: KEYCLOAK_CLIENT_ID or mcp-client)
+ *   --client-secret <s>     Client secret for client-credentials (or KEYCLOAK_CLIENT_SECRET)
+ *   --username <name>       Username for the password grant (or MCP_USERNAME)
+ *   --password <password>   Password for the password grant (or MCP_PASSWORD)
+ *   --token <token>         Access token to use as-is (or MCP_ACCESS_TOKEN)
+ *   --no-cache              Neither read nor write the token cache
+ *
+ * Tokens are cached in MCP_TOKEN_CACHE (default ~/.mcp-oauth/tokens.json) and refreshed
+ * automatically; logout revokes the cached refresh tokens and clears the cache.
  */
 
 import * as crypto from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
 import * as http from 'http';
-import { URL } from 'url';
+import * as os from 'os';
+import * as path from 'path';
+import { URL, pathToFileURL } from 'url';
 
-// Configuration
+// Configuration. The authorization server is discovered from the MCP server, so only client credentials are configured.
 const CONFIG = {
   keycloak: {
-    baseUrl: process.env.KEYCLOAK_URL || 'http://localhost:8080',
-    realm: process.env.KEYCLOAK_REALM || 'mcp-demo',
     clientId: process.env.KEYCLOAK_CLIENT_ID || 'mcp-client',
+    clientSecret: process.env.KEYCLOAK_CLIENT_SECRET,
   },
+  // Defaults to the scopes the server asks for (WWW-Authenticate or protected resource metadata)
+  scope: process.env.MCP_SCOPE,
   mcp: {
     serverUrl: process.env.MCP_SERVER_URL || 'http://localhost:3001',
   },
@@ -29,8 +54,14 @@ const CONFIG = {
     port: 3000,
     path: '/callback',
   },
+  tokenCache: process.env.MCP_TOKEN_CACHE || path.join(os.homedir(), '.mcp-oauth', 'tokens.json'),
 };
 
+const MCP_ENDPOINT = `${CONFIG.mcp.serverUrl}/mcp`;
+
+// Refresh access tokens this long before they expire
+const REFRESH_MARGIN_MS = 30 * 1000;
+
 // PKCE utilities
 function generateCodeVerifier(): string {
   return crypto.randomBytes(32).toString('base64url');
@@ -44,18 +75,260 @@ function generateState(): string {
   return crypto.randomBytes(16).toString('hex');
 }
 
-interface TokenResponse {
+export interface TokenResponse {
   access_token: string;
   token_type: string;
   expires_in: number;
   refresh_token?: string;
+  refresh_expires_in?: number;
   scope?: string;
 }
 
+// Token cache entry; expiry times are absolute (epoch milliseconds)
+export interface CachedTokens {
+  access_token: string;
+  token_type: string;
+  expires_at: number;
+  refresh_token?: string;
+  refresh_expires_at?: number;
+  scope?: string;
+}
+
+type TokenCache = Record<string, CachedTokens>;
+
+// RFC 8628 device authorization response
+interface DeviceAuthorizationResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  verification_uri_complete?: string;
+  expires_in: number;
+  interval?: number;
+}
+
+// RFC 9728 protected resource metadata (only the fields we use)
+export interface ProtectedResourceMetadata {
+  resource: string;
+  authorization_servers?: string[];
+  scopes_supported?: string[];
+}
+
+// RFC 8414 / OpenID Connect discovery metadata (only the fields we use)
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  authorization_endpoint?: string;
+  token_endpoint: string;
+  device_authorization_endpoint?: string;
+  revocation_endpoint?: string;
+  registration_endpoint?: string;
+}
+
+// Everything learned from the MCP server before authenticating
+export interface Discovery {
+  resourceMetadataUrl: string;
+  resourceMetadata: ProtectedResourceMetadata;
+  authorizationServer: AuthorizationServerMetadata;
+  // RFC 8707 resource indicator sent with every authorization and token request
+  resource: string;
+  scope: string;
+}
+
+type AuthMode = 'browser' | 'device' | 'client-credentials' | 'password' | 'token';
+
+interface ClientOptions {
+  // Positional words, e.g. ['tools', 'call', 'greet']; empty runs the connection test
+  command: string[];
+  args?: string;
+  json: boolean;
+  auth: AuthMode;
+  cache: boolean;
+  clientId: string;
+  clientSecret?: string;
+  username?: string;
+  password?: string;
+  token?: string;
+}
+
+let discovery: Discovery | undefined;
+
+function getDiscovery(): Discovery {
+  if (!discovery) {
+    throw new Error('Authorization server has not been discovered');
+  }
+  return discovery;
+}
+
+// Parse the auth-params of a Bearer challenge, e.g. Bearer resource_metadata="...", scope="a b"
+export function parseWwwAuthenticate(header: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  const pattern = /([\w-]+)=(?:"((?:[^"\\]|\\.)*)"|([^\s,]+))/g;
+  for (const match of header.replace(/^\s*Bearer\s+/i, '').matchAll(pattern)) {
+    params[match[1]] = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3];
+  }
+  return params;
+}
+
+async function fetchJson<T>(url: string): Promise<T | undefined> {
+  try {
+    const response = await fetch(url, { headers: { Accept: 'application/json' } });
+    return response.ok ? ((await response.json()) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// RFC 8414 section 3 and OpenID Connect discovery, in the order the MCP specification lists them
+export async function fetchAuthorizationServerMetadata(issuer: string): Promise<AuthorizationServerMetadata> {
+  const url = new URL(issuer);
+  const path = url.pathname.replace(/\/$/, '');
+  const candidates = path
+    ? [
+        `${url.origin}/.well-known/oauth-authorization-server${path}`,
+        `${url.origin}/.well-known/openid-configuration${path}`,
+        `${url.origin}${path}/.well-known/openid-configuration`,
+      ]
+    : [`${url.origin}/.well-known/oauth-authorization-server`, `${url.origin}/.well-known/openid-configuration`];
+
+  for (const candidate of candidates) {
+    const metadata = await fetchJson<AuthorizationServerMetadata>(candidate);
+    if (metadata?.token_endpoint) {
+      // RFC 8414 section 3.3: metadata for another issuer must not be used, or a server could redirect our tokens
+      if (metadata.issuer !== issuer) {
+        throw new Error(`Issuer mismatch in ${candidate}: expected ${issuer}, got ${metadata.issuer}`);
+      }
+      return metadata;
+    }
+  }
+
+  throw new Error(`No authorization server metadata found for ${issuer}`);
+}
+
+// Discover the authorization server the way MCP clients do: unauthenticated request, 401 challenge,
+// protected resource metadata (RFC 9728), then authorization server metadata (RFC 8414)
+export async function discover(endpoint = MCP_ENDPOINT, scope = CONFIG.scope): Promise<Discovery> {
+  const probe = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream',
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 0, method: 'ping' }),
+  });
+  await probe.body?.cancel();
+
+  const challenge = probe.status === 401 ? parseWwwAuthenticate(probe.headers.get('www-authenticate') ?? '') : {};
+
+  // Without a resource_metadata parameter, fall back to the well-known locations for the endpoint
+  const url = new URL(endpoint);
+  const candidates = challenge.resource_metadata
+    ? [challenge.resource_metadata]
+    : [
+        `${url.origin}/.well-known/oauth-protected-resource${url.pathname}`,
+        `${url.origin}/.well-known/oauth-protected-resource`,
+      ];
+
+  let resourceMetadataUrl: string | undefined;
+  let resourceMetadata: ProtectedResourceMetadata | undefined;
+  for (const candidate of candidates) {
+    resourceMetadata = await fetchJson<ProtectedResourceMetadata>(candidate);
+    if (resourceMetadata) {
+      resourceMetadataUrl = candidate;
+      break;
+    }
+  }
+
+  if (!resourceMetadata || !resourceMetadataUrl) {
+    throw new Error(`${endpoint} did not advertise protected resource metadata (status ${probe.status})`);
+  }
+  if (resourceMetadata.resource !== endpoint) {
+    console.log(`   Note: resource metadata names ${resourceMetadata.resource}, not ${endpoint}`);
+  }
+
+  const [issuer] = resourceMetadata.authorization_servers ?? [];
+  if (!issuer) {
+    throw new Error(`${resourceMetadataUrl} lists no authorization servers`);
+  }
+
+  discovery = {
+    resourceMetadataUrl,
+    resourceMetadata,
+    authorizationServer: await fetchAuthorizationServerMetadata(issuer),
+    resource: resourceMetadata.resource,
+    scope: scope ?? challenge.scope ?? (resourceMetadata.scopes_supported ?? []).join(' '),
+  };
+  return discovery;
+}
+
+// POST to the token endpoint; OAuth errors are returned rather than thrown so callers can poll
+async function postTokenRequest(
+  params: Record<string, string | undefined>
+): Promise<{ ok: true; tokens: TokenResponse } | { ok: false; error: string; description?: string }> {
+  const { authorizationServer, resource } = getDiscovery();
+  const body = new URLSearchParams(
+    Object.entries({ ...params, resource }).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+
+  const response = await fetch(authorizationServer.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body,
+  });
+
+  const data = (await response.json().catch(() => ({}))) as any;
+  if (!response.ok) {
+    return { ok: false, error: data.error || `http_${response.status}`, description: data.error_description };
+  }
+  return { ok: true, tokens: data as TokenResponse };
+}
+
+async function requestToken(params: Record<string, string | undefined>): Promise<TokenResponse> {
+  const result = await postTokenRequest(params);
+  if (!result.ok) {
+    throw new Error(`Token request failed: ${result.error}${result.description ? ` - ${result.description}` : ''}`);
+  }
+  return result.tokens;
+}
+
+// Tokens are only reused for the same issuer, client, resource and requested scopes
+function tokenCacheKey(clientId: string): string {
+  const { authorizationServer, resource, scope } = getDiscovery();
+  return `${authorizationServer.issuer} ${clientId} ${resource} ${scope}`;
+}
+
+async function readTokenCache(): Promise<TokenCache> {
+  try {
+    return JSON.parse(await readFile(CONFIG.tokenCache, 'utf8')) as TokenCache;
+  } catch {
+    return {};
+  }
+}
+
+async function writeTokenCache(cache: TokenCache): Promise<void> {
+  await mkdir(path.dirname(CONFIG.tokenCache), { recursive: true, mode: 0o700 });
+  await writeFile(CONFIG.tokenCache, JSON.stringify(cache, null, 2) + '\n', { mode: 0o600 });
+}
+
+export function toCachedTokens(tokens: TokenResponse, previous?: CachedTokens, now = Date.now()): CachedTokens {
+  return {
+    access_token: tokens.access_token,
+    token_type: tokens.token_type,
+    expires_at: now + tokens.expires_in * 1000,
+    // Refresh responses may omit the refresh token, in which case the old one stays valid
+    refresh_token: tokens.refresh_token ?? previous?.refresh_token,
+    refresh_expires_at: tokens.refresh_token
+      ? (tokens.refresh_expires_in ? now + tokens.refresh_expires_in * 1000 : undefined)
+      : previous?.refresh_expires_at,
+    scope: tokens.scope,
+  };
+}
+
 // Start a local server to receive the OAuth callback
 async function startCallbackServer(
   expectedState: string,
-  codeVerifier: string
+  codeVerifier: string,
+  clientId: string
 ): Promise<TokenResponse> {
   return new Promise((resolve, reject) => {
     const server = http.createServer(async (req, res) => {
@@ -85,29 +358,14 @@ async function startCallbackServer(
 
         try {
           // Exchange authorization code for tokens
-          const tokenUrl = `${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}/protocol/openid-connect/token`;
-
-          const tokenResponse = await fetch(tokenUrl, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-              grant_type: 'authorization_code',
-              client_id: CONFIG.keycloak.clientId,
-              code,
-              redirect_uri: `http://${CONFIG.callback.host}:${CONFIG.callback.port}${CONFIG.callback.path}`,
-              code_verifier: codeVerifier,
-            }),
+          const tokens = await requestToken({
+            grant_type: 'authorization_code',
+            client_id: clientId,
+            code,
+            redirect_uri: `http://${CONFIG.callback.host}:${CONFIG.callback.port}${CONFIG.callback.path}`,
+            code_verifier: codeVerifier,
           });
 
-          if (!tokenResponse.ok) {
-            const errorText = await tokenResponse.text();
-            throw new Error(`Token exchange failed: ${tokenResponse.status} ${errorText}`);
-          }
-
-          const tokens = (await tokenResponse.json()) as TokenResponse;
-
           res.writeHead(200, { 'Content-Type': 'text/html' });
           res.end(`
             <html>
@@ -140,156 +398,349 @@ async function startCallbackServer(
     });
 
     // Timeout after 5 minutes
-    setTimeout(() => {
+    const timeout = setTimeout(() => {
       server.close();
       reject(new Error('Authorization timeout'));
     }, 5 * 60 * 1000);
+    // Don't keep the process alive once the callback has been handled
+    server.on('close', () => clearTimeout(timeout));
   });
 }
 
-// Test MCP connection with the obtained token
-async function testMcpConnection(accessToken: string): Promise<void> {
-  console.log('\n🔌 Testing MCP connection...\n');
+// Error returned by the MCP server in a JSON-RPC response
+class JsonRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'JsonRpcError';
+  }
+}
+
+// The server no longer knows our session (404); the client has to initialize a new one
+class SessionExpiredError extends Error {
+  constructor(sessionId: string) {
+    super(`MCP session ${sessionId} has expired`);
+    this.name = 'SessionExpiredError';
+  }
+}
 
-  // First, check the protected resource metadata
-  console.log('1. Fetching protected resource metadata...');
-  const metadataUrl = `${CONFIG.mcp.serverUrl}/.well-known/oauth-protected-resource`;
-  const metadataResponse = await fetch(metadataUrl);
+interface McpSession {
+  sessionId?: string;
+  nextId: number;
+  initializeResult?: any;
+  // Aborts the standalone GET stream for server-initiated messages
+  stream?: AbortController;
+}
 
-  if (metadataResponse.ok) {
-    const metadata = await metadataResponse.json();
-    console.log('   Protected Resource Metadata:', JSON.stringify(metadata, null, 2));
-  } else {
-    console.log('   Could not fetch protected resource metadata');
+// One server-sent event (https://html.spec.whatwg.org/multipage/server-sent-events.html)
+export interface SseEvent {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+// Parse an SSE stream incrementally, yielding each event as soon as its terminating blank line arrives
+export async function* readSseEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<SseEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: { event?: string; data: string[]; id?: string } = { data: [] };
+
+  for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+
+    let newline: RegExpExecArray | null;
+    while ((newline = /\r\n|\r|\n/.exec(buffer))) {
+      // A trailing \r may be the first half of \r\n; wait for more input
+      if (newline[0] === '\r' && newline.index === buffer.length - 1) {
+        break;
+      }
+      const line = buffer.slice(0, newline.index);
+      buffer = buffer.slice(newline.index + newline[0].length);
+
+      if (line === '') {
+        if (event.data.length > 0) {
+          yield { event: event.event ?? 'message', data: event.data.join('\n'), id: event.id };
+        }
+        event = { data: [] };
+        continue;
+      }
+      if (line.startsWith(':')) {
+        // Comment / keep-alive
+        continue;
+      }
+
+      const colon = line.indexOf(':');
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+      if (field === 'data') {
+        event.data.push(value);
+      } else if (field === 'event') {
+        event.event = value;
+      } else if (field === 'id') {
+        event.id = value;
+      }
+    }
   }
 
-  // Test the MCP endpoint
-  console.log('\n2. Testing MCP endpoint with OAuth token...');
+  // The stream ended on a lone \r, which was the blank line ending the last event after all
+  if (buffer === '\r' && event.data.length > 0) {
+    yield { event: event.event ?? 'message', data: event.data.join('\n'), id: event.id };
+  }
+}
 
-  // Initialize MCP session
-  const initRequest = {
-    jsonrpc: '2.0',
-    id: 1,
-    method: 'initialize',
-    params: {
-      protocolVersion: '2024-11-05',
-      capabilities: {},
-      clientInfo: {
-        name: 'mcp-oauth-test-client',
-        version: '1.0.0',
-      },
-    },
-  };
+// Requests and notifications the server sends us, on a POST response stream or the GET stream
+async function handleServerMessage(options: ClientOptions, session: McpSession, message: any): Promise<void> {
+  if (message.method === 'notifications/message') {
+    const { level, logger, data } = message.params ?? {};
+    console.log(`[server ${level}${logger ? ` ${logger}` : ''}] ${typeof data === 'string' ? data : JSON.stringify(data)}`);
+    return;
+  }
+
+  if (message.id === undefined) {
+    console.log(`[server notification] ${message.method}${message.params ? ` ${JSON.stringify(message.params)}` : ''}`);
+    return;
+  }
+
+  // Server-to-client request: we only support ping, and must answer anything else with an error
+  const reply = message.method === 'ping'
+    ? { jsonrpc: '2.0', id: message.id, result: {} }
+    : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not supported by client: ${message.method}` } };
+  await postMcpMessage(options, session, reply);
+}
 
-  const initResponse = await fetch(`${CONFIG.mcp.serverUrl}/mcp`, {
+// POST a JSON-RPC message to the MCP endpoint
+async function postMcpMessage(options: ClientOptions, session: McpSession, message: object): Promise<Response> {
+  const response = await authorizedFetch(options, MCP_ENDPOINT, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json, text/event-stream',
+      ...(session.sessionId ? { 'mcp-session-id': session.sessionId } : {}),
     },
-    body: JSON.stringify(initRequest),
+    body: JSON.stringify(message),
   });
 
-  if (!initResponse.ok) {
-    const errorText = await initResponse.text();
-    console.error('   MCP initialization failed:', initResponse.status, errorText);
-    return;
+  if (response.status === 404 && session.sessionId) {
+    await response.body?.cancel();
+    throw new SessionExpiredError(session.sessionId);
   }
 
-  const sessionId = initResponse.headers.get('mcp-session-id');
-  console.log(`   Session ID: ${sessionId}`);
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`MCP request failed: ${response.status} ${errorText}`);
+  }
 
-  const initResult = await initResponse.json();
-  console.log('   Initialize response:', JSON.stringify(initResult, null, 2));
+  return response;
+}
 
-  // Send initialized notification
-  const initializedNotification = {
-    jsonrpc: '2.0',
-    method: 'notifications/initialized',
+// The response is either a JSON body or an SSE stream carrying server messages followed by our response
+async function readJsonRpcResponse(options: ClientOptions, session: McpSession, response: Response, id: number): Promise<any> {
+  const settle = (message: any) => {
+    if (message.error) {
+      throw new JsonRpcError(message.error.code, message.error.message, message.error.data);
+    }
+    return message.result;
   };
 
-  await fetch(`${CONFIG.mcp.serverUrl}/mcp`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${accessToken}`,
-      'mcp-session-id': sessionId!,
-    },
-    body: JSON.stringify(initializedNotification),
-  });
+  if (!(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+    const body = await response.json();
+    const messages = Array.isArray(body) ? body : [body];
+    const message = messages.find((m) => m.id === id && m.method === undefined);
+    if (!message) {
+      throw new Error(`No response to request ${id}`);
+    }
+    return settle(message);
+  }
 
-  // List available tools
-  console.log('\n3. Listing available tools...');
-  const listToolsRequest = {
-    jsonrpc: '2.0',
-    id: 2,
-    method: 'tools/list',
-  };
+  for await (const event of readSseEvents(response.body!)) {
+    if (event.event !== 'message') {
+      continue;
+    }
+    const message = JSON.parse(event.data);
+    if (message.id === id && message.method === undefined) {
+      // The server closes the stream after the response; don't wait for it
+      await response.body!.cancel().catch(() => undefined);
+      return settle(message);
+    }
+    await handleServerMessage(options, session, message);
+  }
 
-  const toolsResponse = await fetch(`${CONFIG.mcp.serverUrl}/mcp`, {
-    method: 'POST',
+  throw new Error(`Stream ended without a response to request ${id}`);
+}
+
+// Listen for server-initiated messages on the standalone GET stream until the session is closed
+async function openNotificationStream(options: ClientOptions, session: McpSession): Promise<void> {
+  const controller = new AbortController();
+  session.stream = controller;
+
+  const response = await authorizedFetch(options, MCP_ENDPOINT, {
+    method: 'GET',
     headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${accessToken}`,
-      'mcp-session-id': sessionId!,
+      Accept: 'text/event-stream',
+      'mcp-session-id': session.sessionId!,
     },
-    body: JSON.stringify(listToolsRequest),
+    signal: controller.signal,
   });
 
-  const toolsResult = await toolsResponse.json();
-  console.log('   Available tools:', JSON.stringify(toolsResult, null, 2));
+  // 405: the server does not offer a GET stream
+  if (!response.ok || !(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+    await response.body?.cancel();
+    session.stream = undefined;
+    return;
+  }
+
+  (async () => {
+    try {
+      for await (const event of readSseEvents(response.body!)) {
+        if (event.event === 'message') {
+          await handleServerMessage(options, session, JSON.parse(event.data));
+        }
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.log(`Notification stream failed: ${(error as Error).message}`);
+      }
+    }
+  })();
+}
+
+// Run the initialize handshake on the given session, replacing any previous server session
+async function initializeSession(options: ClientOptions, session: McpSession): Promise<void> {
+  session.stream?.abort();
+  session.sessionId = undefined;
+  const id = session.nextId++;
 
-  // Call the greet tool
-  console.log('\n4. Calling the greet tool...');
-  const callToolRequest = {
+  const response = await postMcpMessage(options, session, {
     jsonrpc: '2.0',
-    id: 3,
-    method: 'tools/call',
+    id,
+    method: 'initialize',
     params: {
-      name: 'greet',
-      arguments: {
-        name: 'OAuth User',
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: {
+        name: 'mcp-oauth-test-client',
+        version: '1.0.0',
       },
     },
-  };
+  });
 
-  const callToolResponse = await fetch(`${CONFIG.mcp.serverUrl}/mcp`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${accessToken}`,
-      'mcp-session-id': sessionId!,
-    },
-    body: JSON.stringify(callToolRequest),
+  session.sessionId = response.headers.get('mcp-session-id') ?? undefined;
+  session.initializeResult = await readJsonRpcResponse(options, session, response, id);
+
+  await postMcpMessage(options, session, { jsonrpc: '2.0', method: 'notifications/initialized' });
+  if (session.sessionId) {
+    await openNotificationStream(options, session);
+  }
+}
+
+// Send a message, starting a new session and retrying once if the server has expired ours
+async function withSessionRetry<T>(options: ClientOptions, session: McpSession, send: () => Promise<T>): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    if (!(error instanceof SessionExpiredError)) {
+      throw error;
+    }
+    console.log(`${error.message}; initializing a new session...`);
+    await initializeSession(options, session);
+    return send();
+  }
+}
+
+async function mcpRequest(options: ClientOptions, session: McpSession, method: string, params?: object): Promise<any> {
+  return withSessionRetry(options, session, async () => {
+    const id = session.nextId++;
+    const response = await postMcpMessage(options, session, { jsonrpc: '2.0', id, method, ...(params ? { params } : {}) });
+    return readJsonRpcResponse(options, session, response, id);
   });
+}
 
-  const callToolResult = await callToolResponse.json();
-  console.log('   Tool result:', JSON.stringify(callToolResult, null, 2));
+async function openMcpSession(options: ClientOptions): Promise<McpSession> {
+  const session: McpSession = { nextId: 1 };
+  await initializeSession(options, session);
+  return session;
+}
 
-  console.log('\n✅ MCP connection test completed successfully!');
+// Stop listening and tell the server to discard the session
+async function closeMcpSession(options: ClientOptions, session: McpSession): Promise<void> {
+  session.stream?.abort();
+  if (!session.sessionId) {
+    return;
+  }
+
+  try {
+    const response = await authorizedFetch(options, MCP_ENDPOINT, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': session.sessionId },
+    });
+    await response.body?.cancel();
+  } catch {
+    // Best effort; the server expires idle sessions anyway
+  }
+  session.sessionId = undefined;
 }
 
-async function main() {
-  console.log('\n🔐 MCP OAuth Test Client\n');
-  console.log('Configuration:');
-  console.log(`  Keycloak URL: ${CONFIG.keycloak.baseUrl}`);
-  console.log(`  Realm: ${CONFIG.keycloak.realm}`);
-  console.log(`  Client ID: ${CONFIG.keycloak.clientId}`);
-  console.log(`  MCP Server: ${CONFIG.mcp.serverUrl}`);
-  console.log('');
+// Test MCP connection with the obtained token
+async function testMcpConnection(options: ClientOptions): Promise<void> {
+  console.log('\n🔌 Testing MCP connection...\n');
+
+  // First, show the protected resource metadata found during discovery
+  const { resourceMetadataUrl, resourceMetadata } = getDiscovery();
+  console.log(`1. Protected resource metadata (${resourceMetadataUrl}):`);
+  console.log('  ', JSON.stringify(resourceMetadata, null, 2));
+
+  // Test the MCP endpoint
+  console.log('\n2. Testing MCP endpoint with OAuth token...');
+
+  const session = await openMcpSession(options);
+  console.log(`   Session ID: ${session.sessionId}`);
+  console.log(`   Notification stream: ${session.stream ? 'open' : 'not offered by server'}`);
+  console.log('   Initialize response:', JSON.stringify(session.initializeResult, null, 2));
+
+  try {
+    // List available tools
+    console.log('\n3. Listing available tools...');
+    const toolsResult = await mcpRequest(options, session, 'tools/list');
+    console.log('   Available tools:', JSON.stringify(toolsResult, null, 2));
 
+    // Call the greet tool
+    console.log('\n4. Calling the greet tool...');
+    const callToolResult = await mcpRequest(options, session, 'tools/call', {
+      name: 'greet',
+      arguments: {
+        name: 'OAuth User',
+      },
+    });
+    console.log('   Tool result:', JSON.stringify(callToolResult, null, 2));
+  } finally {
+    await closeMcpSession(options, session);
+  }
+
+  console.log('\n✅ MCP connection test completed successfully!');
+}
+
+// Authorization code flow with PKCE, completed in the user's browser
+async function loginWithBrowser(options: ClientOptions): Promise<TokenResponse> {
   // Generate PKCE values
   const codeVerifier = generateCodeVerifier();
   const codeChallenge = generateCodeChallenge(codeVerifier);
   const state = generateState();
 
   // Build authorization URL
-  const authUrl = new URL(
-    `${CONFIG.keycloak.baseUrl}/realms/${CONFIG.keycloak.realm}/protocol/openid-connect/auth`
-  );
-  authUrl.searchParams.set('client_id', CONFIG.keycloak.clientId);
+  const { authorizationServer, resource, scope } = getDiscovery();
+  if (!authorizationServer.authorization_endpoint) {
+    throw new Error(`${authorizationServer.issuer} has no authorization endpoint`);
+  }
+
+  const authUrl = new URL(authorizationServer.authorization_endpoint);
+  authUrl.searchParams.set('client_id', options.clientId);
   authUrl.searchParams.set('response_type', 'code');
-  authUrl.searchParams.set('scope', 'openid profile email');
+  authUrl.searchParams.set('scope', scope);
+  authUrl.searchParams.set('resource', resource);
   authUrl.searchParams.set(
     'redirect_uri',
     `http://${CONFIG.callback.host}:${CONFIG.callback.port}${CONFIG.callback.path}`
@@ -302,38 +753,576 @@ async function main() {
   console.log('Please open this URL in your browser to authorize:\n');
   console.log(`  ${authUrl.toString()}\n`);
 
-  // Try to open the browser automatically
-  const { exec } = await import('child_process');
-  const openCommand =
+  // Try to open the browser automatically; the URL is passed as an argument, never through a shell
+  const { execFile } = await import('child_process');
+  const [openCommand, ...openArgs] =
     process.platform === 'darwin'
-      ? 'open'
+      ? ['open']
       : process.platform === 'win32'
-        ? 'start'
-        : 'xdg-open';
+        ? ['rundll32', 'url.dll,FileProtocolHandler']
+        : ['xdg-open'];
 
-  exec(`${openCommand} "${authUrl.toString()}"`, (error) => {
+  execFile(openCommand, [...openArgs, authUrl.toString()], (error) => {
     if (error) {
       console.log('Could not open browser automatically. Please open the URL manually.');
     }
   });
 
+  // Wait for the callback
+  return startCallbackServer(state, codeVerifier, options.clientId);
+}
+
+// RFC 8628 device authorization grant: the user approves on any device, nothing runs locally
+async function loginWithDeviceCode(options: ClientOptions): Promise<TokenResponse> {
+  console.log('Starting device authorization flow...\n');
+
+  const { authorizationServer, resource, scope } = getDiscovery();
+  if (!authorizationServer.device_authorization_endpoint) {
+    throw new Error(`${authorizationServer.issuer} does not support the device authorization grant`);
+  }
+
+  const response = await fetch(authorizationServer.device_authorization_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: options.clientId,
+      scope,
+      resource,
+      ...(options.clientSecret ? { client_secret: options.clientSecret } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Device authorization failed: ${response.status} ${errorText}`);
+  }
+
+  const device = (await response.json()) as DeviceAuthorizationResponse;
+
+  console.log(`Open ${device.verification_uri} and enter the code:\n`);
+  console.log(`  ${device.user_code}\n`);
+  if (device.verification_uri_complete) {
+    console.log(`Or open: ${device.verification_uri_complete}\n`);
+  }
+  console.log('Waiting for approval...');
+
+  let interval = (device.interval ?? 5) * 1000;
+  const deadline = Date.now() + device.expires_in * 1000;
+
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, interval));
+
+    const result = await postTokenRequest({
+      grant_type: 'urn:ietf:params:oauth:grant-type:device_code',
+      device_code: device.device_code,
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+    });
+
+    if (result.ok) {
+      return result.tokens;
+    }
+    if (result.error === 'slow_down') {
+      interval += 5000;
+    } else if (result.error !== 'authorization_pending') {
+      throw new Error(`Device authorization failed: ${result.error}${result.description ? ` - ${result.description}` : ''}`);
+    }
+  }
+
+  throw new Error('Device code expired before it was approved');
+}
+
+async function authenticate(options: ClientOptions): Promise<TokenResponse> {
+  switch (options.auth) {
+    case 'browser':
+      return loginWithBrowser(options);
+
+    case 'device':
+      return loginWithDeviceCode(options);
+
+    case 'client-credentials':
+      if (!options.clientSecret) {
+        throw new Error('client-credentials requires --client-secret or KEYCLOAK_CLIENT_SECRET');
+      }
+      console.log('Requesting token with client credentials...');
+      return requestToken({
+        grant_type: 'client_credentials',
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        scope: getDiscovery().scope,
+      });
+
+    case 'password':
+      // Resource owner password credentials: for development realms only
+      if (!options.username || !options.password) {
+        throw new Error('password requires --username and --password (or MCP_USERNAME and MCP_PASSWORD)');
+      }
+      console.log(`Requesting token for ${options.username} with the password grant...`);
+      return requestToken({
+        grant_type: 'password',
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        username: options.username,
+        password: options.password,
+        scope: getDiscovery().scope,
+      });
+
+    case 'token':
+      if (!options.token) {
+        throw new Error('token requires --token or MCP_ACCESS_TOKEN');
+      }
+      return { access_token: options.token, token_type: 'Bearer', expires_in: 0 };
+  }
+}
+
+// Tokens for the current run; kept in sync with the cache file
+let activeTokens: CachedTokens | undefined;
+
+async function saveTokens(options: ClientOptions, tokens: CachedTokens): Promise<void> {
+  activeTokens = tokens;
+  if (options.cache) {
+    const cache = await readTokenCache();
+    cache[tokenCacheKey(options.clientId)] = tokens;
+    await writeTokenCache(cache);
+  }
+}
+
+// Load cached tokens if there are usable ones, otherwise log in
+async function login(options: ClientOptions): Promise<'cache' | 'login'> {
+  if (options.auth === 'token') {
+    activeTokens = { access_token: options.token!, token_type: 'Bearer', expires_at: Infinity };
+    return 'login';
+  }
+
+  if (options.cache) {
+    const cached = (await readTokenCache())[tokenCacheKey(options.clientId)];
+    if (cached && (isFresh(cached) || canRefresh(cached))) {
+      activeTokens = cached;
+      return 'cache';
+    }
+  }
+
+  await saveTokens(options, toCachedTokens(await authenticate(options)));
+  return 'login';
+}
+
+// Whether the access token is still usable without refreshing it first
+export function isFresh(tokens: CachedTokens, now = Date.now()): boolean {
+  return tokens.expires_at > now + REFRESH_MARGIN_MS;
+}
+
+export function canRefresh(tokens: CachedTokens, now = Date.now()): boolean {
+  return !!tokens.refresh_token && (!tokens.refresh_expires_at || tokens.refresh_expires_at > now);
+}
+
+// Current access token, refreshed first if it is about to expire (or if forced after a 401)
+async function getAccessToken(options: ClientOptions, forceRefresh = false): Promise<string> {
+  if (!activeTokens) {
+    throw new Error('Not logged in');
+  }
+  if (options.auth === 'token' || (!forceRefresh && isFresh(activeTokens))) {
+    return activeTokens.access_token;
+  }
+
+  if (canRefresh(activeTokens)) {
+    const result = await postTokenRequest({
+      grant_type: 'refresh_token',
+      refresh_token: activeTokens.refresh_token,
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+    });
+    if (result.ok) {
+      console.log('   (access token refreshed)');
+      await saveTokens(options, toCachedTokens(result.tokens, activeTokens));
+      return activeTokens.access_token;
+    }
+    console.log(`   Token refresh failed (${result.error}), logging in again...`);
+  }
+
+  await saveTokens(options, toCachedTokens(await authenticate(options)));
+  return activeTokens.access_token;
+}
+
+// fetch with the current access token; retries once with fresh tokens on 401 invalid_token
+async function authorizedFetch(options: ClientOptions, url: string, init: RequestInit): Promise<Response> {
+  const send = async (token: string) =>
+    fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), Authorization: `Bearer ${token}` } });
+
+  const response = await send(await getAccessToken(options));
+  const challenge = response.headers.get('www-authenticate') ?? '';
+
+  if (response.status !== 401 || !challenge.includes('invalid_token') || options.auth === 'token') {
+    return response;
+  }
+
+  return send(await getAccessToken(options, true));
+}
+
+// Revoke (RFC 7009) and forget every cached token for this issuer and client
+async function logout(options: ClientOptions): Promise<void> {
+  const cache = await readTokenCache();
+  const { authorizationServer } = getDiscovery();
+  const prefix = `${authorizationServer.issuer} ${options.clientId} `;
+  const keys = Object.keys(cache).filter((key) => key.startsWith(prefix));
+
+  for (const key of keys) {
+    const tokens = cache[key];
+    // Revoking the refresh token ends the Keycloak session, which also invalidates its access tokens
+    const token = tokens.refresh_token ?? tokens.access_token;
+    if (!authorizationServer.revocation_endpoint) {
+      console.log(`  ${authorizationServer.issuer} has no revocation endpoint; removing the cached tokens only`);
+      delete cache[key];
+      continue;
+    }
+    const response = await fetch(authorizationServer.revocation_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        token,
+        token_type_hint: tokens.refresh_token ? 'refresh_token' : 'access_token',
+        client_id: options.clientId,
+        ...(options.clientSecret ? { client_secret: options.clientSecret } : {}),
+      }),
+    });
+    if (!response.ok) {
+      console.log(`  Could not revoke token: ${response.status} ${await response.text()}`);
+    }
+    delete cache[key];
+  }
+
+  await writeTokenCache(cache);
+  console.log(`Logged out: revoked and removed ${keys.length} cached token set(s) from ${CONFIG.tokenCache}`);
+}
+
+function parseArgs(argv: string[]): ClientOptions {
+  const options: ClientOptions = {
+    command: [],
+    auth: 'browser',
+    cache: true,
+    json: false,
+    clientId: CONFIG.keycloak.clientId,
+    clientSecret: CONFIG.keycloak.clientSecret,
+    username: process.env.MCP_USERNAME,
+    password: process.env.MCP_PASSWORD,
+    token: process.env.MCP_ACCESS_TOKEN,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = () => {
+      const next = argv[++i];
+      if (!next) {
+        throw new Error(`${argv[i - 1]} requires a value`);
+      }
+      return next;
+    };
+
+    switch (argv[i]) {
+      case '--auth': {
+        const mode = value() as AuthMode;
+        if (!['browser', 'device', 'client-credentials', 'password', 'token'].includes(mode)) {
+          throw new Error(`Unknown auth mode: ${mode}`);
+        }
+        options.auth = mode;
+        break;
+      }
+      case '--client-id':
+        options.clientId = value();
+        break;
+      case '--client-secret':
+        options.clientSecret = value();
+        break;
+      case '--username':
+        options.username = value();
+        break;
+      case '--password':
+        options.password = value();
+        break;
+      case '--token':
+        options.token = value();
+        break;
+      case '--no-cache':
+        options.cache = false;
+        break;
+      case '--args':
+        options.args = value();
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      default:
+        if (argv[i].startsWith('--')) {
+          throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+        options.command.push(argv[i]);
+    }
+  }
+
+  return options;
+}
+
+const USAGE = `Commands:
+  tools list
+  tools call <name> [--args <json>]
+  resources list
+  resources read <uri>
+  prompts list
+  prompts get <name> [--args <json>]
+  repl
+  logout`;
+
+// Fetch every page of a paginated list method
+async function listAll(options: ClientOptions, session: McpSession, method: string, key: string): Promise<any[]> {
+  const items: any[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = await mcpRequest(options, session, method, cursor ? { cursor } : undefined);
+    items.push(...(result[key] ?? []));
+    cursor = result.nextCursor;
+  } while (cursor);
+  return items;
+}
+
+function parseJsonArgs(args: string | undefined): Record<string, unknown> {
+  if (!args) {
+    return {};
+  }
+  try {
+    return JSON.parse(args);
+  } catch {
+    throw new Error(`Arguments must be a JSON object: ${args}`);
+  }
+}
+
+// Print text content as-is and anything else as JSON
+function printContent(content: any): void {
+  if (content.type === 'text') {
+    console.log(content.text);
+  } else if (content.type === 'resource' && content.resource?.text !== undefined) {
+    console.log(content.resource.text);
+  } else {
+    console.log(JSON.stringify(content, null, 2));
+  }
+}
+
+// Run a CLI/REPL command such as ['tools', 'call', 'greet'] against an open session
+async function runCommand(options: ClientOptions, session: McpSession, words: string[], args?: string): Promise<void> {
+  const [group, action, target] = words;
+  const output = (result: unknown, print: () => void) =>
+    options.json ? console.log(JSON.stringify(result, null, 2)) : print();
+
+  switch (`${group} ${action}`) {
+    case 'tools list': {
+      const tools = await listAll(options, session, 'tools/list', 'tools');
+      output(tools, () => tools.forEach((tool) => console.log(`${tool.name}${tool.description ? ` - ${tool.description}` : ''}`)));
+      return;
+    }
+
+    case 'tools call': {
+      if (!target) {
+        throw new Error('Usage: tools call <name> [--args <json>]');
+      }
+      const result = await mcpRequest(options, session, 'tools/call', { name: target, arguments: parseJsonArgs(args) });
+      output(result, () => {
+        if (result.isError) {
+          console.log('Tool returned an error:');
+        }
+        (result.content ?? []).forEach(printContent);
+      });
+      return;
+    }
+
+    case 'resources list': {
+      const resources = await listAll(options, session, 'resources/list', 'resources');
+      output(resources, () =>
+        resources.forEach((resource) => console.log(`${resource.uri} - ${resource.name}${resource.mimeType ? ` (${resource.mimeType})` : ''}`))
+      );
+      return;
+    }
+
+    case 'resources read': {
+      if (!target) {
+        throw new Error('Usage: resources read <uri>');
+      }
+      const result = await mcpRequest(options, session, 'resources/read', { uri: target });
+      output(result, () =>
+        (result.contents ?? []).forEach((content: any) =>
+          console.log(content.text ?? `<${content.mimeType ?? 'binary'} content, ${content.blob?.length ?? 0} base64 characters>`)
+        )
+      );
+      return;
+    }
+
+    case 'prompts list': {
+      const prompts = await listAll(options, session, 'prompts/list', 'prompts');
+      output(prompts, () =>
+        prompts.forEach((prompt) => {
+          const args = (prompt.arguments ?? []).map((a: any) => (a.required ? a.name : `[${a.name}]`)).join(' ');
+          console.log(`${prompt.name}${args ? ` ${args}` : ''}${prompt.description ? ` - ${prompt.description}` : ''}`);
+        })
+      );
+      return;
+    }
+
+    case 'prompts get': {
+      if (!target) {
+        throw new Error('Usage: prompts get <name> [--args <json>]');
+      }
+      const result = await mcpRequest(options, session, 'prompts/get', { name: target, arguments: parseJsonArgs(args) });
+      output(result, () =>
+        (result.messages ?? []).forEach((message: any) => {
+          console.log(`[${message.role}]`);
+          printContent(message.content);
+        })
+      );
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown command: ${words.join(' ')}\n\n${USAGE}`);
+  }
+}
+
+// Interactive shell; lines use the CLI syntax, with JSON arguments after the name (tools call greet {"name":"Ada"})
+async function runRepl(options: ClientOptions, session: McpSession): Promise<void> {
+  const { createInterface } = await import('readline');
+  const rl = createInterface({ input: process.stdin, output: process.stdout, prompt: 'mcp> ' });
+  // Ctrl+C ends the loop so the session is still closed on the server
+  rl.on('SIGINT', () => rl.close());
+
+  console.log(`Connected to ${MCP_ENDPOINT} (session ${session.sessionId}). Type "help" for commands, "exit" to quit.`);
+  rl.prompt();
+
+  // The async iterator buffers lines, so piped input is not lost while a command is running
+  for await (const input of rl) {
+    const line = input.trim();
+
+    if (line === 'exit' || line === 'quit') {
+      break;
+    }
+    if (line === 'help') {
+      console.log(USAGE.split('\n').filter((l) => !/repl|logout/.test(l)).join('\n'));
+    } else if (line) {
+      const [, group, action, target, args] = line.match(/^(\S+)(?:\s+(\S+))?(?:\s+(\S+))?(?:\s+(.+))?$/)!;
+      try {
+        await runCommand(options, session, [group, action, target].filter(Boolean), args);
+      } catch (error) {
+        console.error(error instanceof JsonRpcError ? `Error ${error.code}: ${error.message}` : (error as Error).message);
+      }
+    }
+    rl.prompt();
+  }
+
+  rl.close();
+}
+
+async function main() {
+  let options: ClientOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exit(1);
+  }
+
+  const [command] = options.command;
+
+  if (command === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  // Without a command, run the end-to-end connection test with full diagnostics
+  if (!command) {
+    console.log('\n🔐 MCP OAuth Test Client\n');
+    console.log(`Discovering authorization server for ${MCP_ENDPOINT}...`);
+  }
+
+  let discovered: Discovery;
+  try {
+    discovered = await discover();
+  } catch (error) {
+    console.error('\n❌ Discovery failed:', error);
+    process.exit(1);
+  }
+
+  if (command === 'logout') {
+    try {
+      await logout(options);
+    } catch (error) {
+      console.error('\n❌ Logout failed:', error);
+      process.exit(1);
+    }
+    return;
+  }
+
+  if (!command) {
+    console.log('');
+    console.log('Configuration:');
+    console.log(`  MCP Server: ${MCP_ENDPOINT}`);
+    console.log(`  Resource Metadata: ${discovered.resourceMetadataUrl}`);
+    console.log(`  Authorization Server: ${discovered.authorizationServer.issuer}`);
+    console.log(`  Resource: ${discovered.resource}`);
+    console.log(`  Scope: ${discovered.scope}`);
+    console.log(`  Client ID: ${options.clientId}`);
+    console.log(`  Auth Mode: ${options.auth}`);
+    console.log('');
+  }
+
+  let source: 'cache' | 'login';
   try {
-    // Wait for the callback
-    const tokens = await startCallbackServer(state, codeVerifier);
+    source = await login(options);
+  } catch (error) {
+    console.error('\n❌ Authorization failed:', error);
+    process.exit(1);
+  }
 
-    console.log('\n✅ OAuth authorization successful!\n');
+  if (command) {
+    let session: McpSession | undefined;
+    try {
+      session = await openMcpSession(options);
+      if (command === 'repl') {
+        await runRepl(options, session);
+      } else {
+        await runCommand(options, session, options.command, options.args);
+      }
+    } catch (error) {
+      console.error(error instanceof JsonRpcError ? `Error ${error.code}: ${error.message}` : (error as Error).message);
+      process.exitCode = 1;
+    } finally {
+      if (session) {
+        await closeMcpSession(options, session);
+      }
+    }
+    return;
+  }
+
+  const tokens = activeTokens!;
+  if (options.auth === 'token') {
+    console.log('Using the provided access token\n');
+  } else {
+    console.log(source === 'cache' ? `✅ Using cached tokens from ${CONFIG.tokenCache}\n` : '\n✅ OAuth authorization successful!\n');
     console.log('Token Information:');
     console.log(`  Token Type: ${tokens.token_type}`);
-    console.log(`  Expires In: ${tokens.expires_in} seconds`);
+    console.log(`  Expires In: ${Math.round((tokens.expires_at - Date.now()) / 1000)} seconds`);
+    console.log(`  Refreshable: ${canRefresh(tokens) ? 'yes' : 'no'}`);
     console.log(`  Scope: ${tokens.scope || 'not specified'}`);
     console.log(`  Access Token: ${tokens.access_token.substring(0, 50)}...`);
+  }
 
+  try {
     // Test MCP connection
-    await testMcpConnection(tokens.access_token);
+    await testMcpConnection(options);
   } catch (error) {
-    console.error('\n❌ Authorization failed:', error);
+    console.error('\n❌ MCP connection failed:', error);
     process.exit(1);
   }
 }
 
-main();
+// Only run as a command, not when the tests import the discovery, SSE and token cache helpers
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
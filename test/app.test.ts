@@ -0,0 +1,287 @@
+/**
+ * Library tests: mounts createMcpApp and createOAuthMiddleware on a host Express app in-process,
+ * the way another service would embed them, against the mock OIDC provider.
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+  AuditRecord,
+  AuthContext,
+  McpApp,
+  McpAppOptions,
+  createAuditLogger,
+  createMcpApp,
+  createMcpMetrics,
+  createOAuthMiddleware,
+  getAuthContext,
+} from '../src/index.js';
+import { MockOidc, startMockOidc } from './mock-oidc.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'app-test', version: '1.0.0' },
+  },
+};
+
+// JSON-RPC messages from a JSON or SSE response body
+async function readMessages(response: Response): Promise<any[]> {
+  const text = await response.text();
+  return (response.headers.get('content-type') ?? '').includes('text/event-stream')
+    ? text.split('\n').filter((line) => line.startsWith('data:')).map((line) => JSON.parse(line.slice(5)))
+    : text ? [JSON.parse(text)] : [];
+}
+
+describe('createMcpApp mounted on a host app', () => {
+  let mock: MockOidc;
+  let mcp: McpApp;
+  let httpServer: Server;
+  let baseUrl: string;
+  const owners: AuthContext[] = [];
+
+  function register(server: McpServer, owner: AuthContext) {
+    owners.push(owner);
+    server.tool('echo', 'Echoes the caller', {}, async (_args, extra) => ({
+      content: [{ type: 'text', text: getAuthContext(extra).username ?? '' }],
+    }));
+    server.tool('purge', 'Admin only', {}, async () => ({ content: [{ type: 'text', text: 'purged' }] }));
+  }
+
+  async function post(token: string, body: unknown, sessionId?: string) {
+    return fetch(`${baseUrl}/embedded/mcp`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+  }
+
+  before(async () => {
+    const host = express();
+    httpServer = await new Promise<Server>((resolve) => {
+      const server = host.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+    mock = await startMockOidc({ audience: `${baseUrl}/embedded/mcp` });
+
+    mcp = createMcpApp({
+      serverInfo: { name: 'embedded', version: '1.0.0' },
+      register,
+      auth: {
+        serverUrl: `${baseUrl}/embedded`,
+        trustedIssuers: [mock.issuer],
+        accessPolicy: { tools: { purge: { realmRoles: ['mcp-admin'] } }, resources: {}, prompts: {} },
+      },
+      registration: {
+        issuer: mock.issuer,
+        adminUrl: `${mock.baseUrl}/admin/realms/${mock.realm}`,
+        clientId: 'mcp-server',
+        clientSecret: 'test-secret',
+        redirectUriPatterns: ['http://localhost:*'],
+        resourceUrl: `${baseUrl}/embedded/mcp`,
+      },
+    });
+    await mcp.initialize();
+
+    // Host routes stay unauthenticated; a standalone middleware protects one of them
+    host.get('/status', (req, res) => res.json({ ok: true }));
+    host.get('/private', createOAuthMiddleware({ verifier: mcp.verifier, resourceMetadataUrl: mcp.resourceMetadataUrl }), (req, res) => {
+      res.json({ subject: getAuthContext({ authInfo: (req as any).auth }).subject });
+    });
+    host.use('/embedded', mcp.app);
+  });
+
+  after(async () => {
+    await mcp.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await mock.close();
+  });
+
+  it('serves protected resource metadata under the mount path', async () => {
+    const response = await fetch(`${baseUrl}/embedded/.well-known/oauth-protected-resource`);
+    const metadata = await response.json();
+    assert.equal(metadata.resource, `${baseUrl}/embedded/mcp`);
+    assert.deepEqual(metadata.authorization_servers, [mock.issuer]);
+    assert.equal(metadata.registration_endpoint, `${baseUrl}/embedded/register`);
+    // The issuer's own metadata is never re-served under this app's URL
+    assert.equal((await fetch(`${baseUrl}/embedded/.well-known/oauth-authorization-server`)).status, 404);
+  });
+
+  it('leaves host routes alone', async () => {
+    assert.equal((await fetch(`${baseUrl}/status`)).status, 200);
+  });
+
+  it('challenges unauthenticated requests with the mounted metadata URL', async () => {
+    const response = await fetch(`${baseUrl}/private`);
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate') ?? '', /embedded\/\.well-known\/oauth-protected-resource/);
+
+    const authorized = await fetch(`${baseUrl}/private`, { headers: { Authorization: `Bearer ${await mock.signToken()}` } });
+    assert.equal(authorized.status, 200);
+  });
+
+  it('builds a server per session for the caller and applies the access policy', async () => {
+    const token = await mock.signToken();
+    const initialized = await post(token, INITIALIZE);
+    assert.equal(initialized.status, 200);
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+    await readMessages(initialized);
+    assert.equal(owners.at(-1)?.username, 'testuser');
+    assert.equal(mcp.sessions.size, 1);
+
+    await post(token, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+
+    const [list] = await readMessages(await post(token, { jsonrpc: '2.0', id: 2, method: 'tools/list' }, sessionId));
+    assert.deepEqual(list.result.tools.map((tool: any) => tool.name), ['echo']);
+
+    const [echo] = await readMessages(await post(token, { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'echo', arguments: {} } }, sessionId));
+    assert.equal(echo.result.content[0].text, 'testuser');
+
+    const denied = await post(token, { jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'purge', arguments: {} } }, sessionId);
+    assert.equal(denied.status, 403);
+    assert.match(denied.headers.get('www-authenticate') ?? '', /insufficient_scope/);
+  });
+});
+
+// A standalone app with an echo tool that takes a note and an admin-only purge tool, for tests that need their
+// own counters and audit records
+async function startInstrumentedApp(options: Pick<McpAppOptions, 'audit' | 'metrics'>) {
+  const host = express();
+  const httpServer = await new Promise<Server>((resolve) => {
+    const server = host.listen(0, '127.0.0.1', () => resolve(server));
+  });
+  const baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  const mock = await startMockOidc({ audience: `${baseUrl}/mcp` });
+
+  const mcp = createMcpApp({
+    serverInfo: { name: 'instrumented', version: '1.0.0' },
+    register(server) {
+      server.tool('echo', 'Echoes the note', { note: z.string().optional() }, async ({ note }) => ({
+        content: [{ type: 'text', text: note ?? '' }],
+      }));
+      server.tool('purge', 'Admin only', {}, async () => ({ content: [{ type: 'text', text: 'purged' }] }));
+    },
+    auth: {
+      serverUrl: baseUrl,
+      trustedIssuers: [mock.issuer],
+      accessPolicy: { tools: { purge: { realmRoles: ['mcp-admin'] } }, resources: {}, prompts: {} },
+    },
+    ...options,
+  });
+  await mcp.initialize();
+  host.use(mcp.app);
+
+  async function post(token: string, body: unknown, sessionId?: string) {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, headers: response.headers, messages: await readMessages(response) };
+  }
+
+  // Initialize a session, call echo with a note and try the purge tool the caller isn't allowed to use
+  async function useTools(token: string) {
+    const initialized = await post(token, INITIALIZE);
+    assert.equal(initialized.status, 200);
+    const sessionId = initialized.headers.get('mcp-session-id')!;
+    await post(token, { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId);
+
+    const echo = await post(token, { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'echo', arguments: { note: 'secret plans' } } }, sessionId);
+    assert.equal(echo.messages[0].result.content[0].text, 'secret plans');
+    const purge = await post(token, { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'purge', arguments: {} } }, sessionId);
+    assert.equal(purge.status, 403);
+  }
+
+  async function close() {
+    await mcp.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await mock.close();
+  }
+
+  return { mock, post, useTools, close };
+}
+
+describe('audit log of a mounted app', () => {
+  it('audits authentication, sessions and invocations without logging tokens or arguments', async () => {
+    const auditRecords: AuditRecord[] = [];
+    const app = await startInstrumentedApp({ audit: createAuditLogger([{ write: (record) => auditRecords.push(record) }]) });
+    try {
+      assert.equal((await app.post('not-a-jwt', INITIALIZE)).status, 401);
+      await app.useTools(await app.mock.signToken());
+    } finally {
+      await app.close();
+    }
+
+    const events = auditRecords.map((record) => record.event);
+    assert.ok(events.includes('auth.failure'));
+    assert.ok(events.includes('auth.success'));
+
+    const created = auditRecords.find((record) => record.event === 'session.created');
+    assert.equal((created as any)?.subject, 'user-1');
+
+    const invoked = auditRecords.find((record) => record.event === 'mcp.invoked') as any;
+    assert.equal(invoked.kind, 'tool');
+    assert.equal(invoked.name, 'echo');
+    assert.equal(invoked.subject, 'user-1');
+    assert.equal(invoked.outcome, 'success');
+    assert.match(invoked.argumentsHash, /^[0-9a-f]{64}$/);
+    assert.equal(typeof invoked.durationMs, 'number');
+
+    const denied = auditRecords.find((record) => record.event === 'access.denied') as any;
+    assert.equal(denied.target, 'purge');
+
+    const serialized = JSON.stringify(auditRecords);
+    assert.ok(!serialized.includes('secret plans'));
+    assert.ok(!serialized.includes('eyJ'));
+  });
+});
+
+describe('metrics of a mounted app', () => {
+  it('counts verifications, requests, sessions and tool calls', async () => {
+    const metrics = createMcpMetrics();
+    const app = await startInstrumentedApp({ metrics });
+    let output: string;
+    try {
+      await app.useTools(await app.mock.signToken());
+      const expired = await app.mock.signToken({}, { expiresIn: Math.floor(Date.now() / 1000) - 60 });
+      assert.equal((await app.post(expired, INITIALIZE)).status, 401);
+      output = metrics.registry.render();
+    } finally {
+      await app.close();
+    }
+
+    // initialize, notifications/initialized and the two tool calls
+    assert.match(output, /^mcp_token_verifications_total\{outcome="valid",reason="ok"\} 4$/m);
+    assert.match(output, /^mcp_token_verifications_total\{outcome="rejected",reason="expired"\} 1$/m);
+    assert.match(output, /^mcp_issuer_up\{issuer="[^"]+"\} 1$/m);
+    // Once at startup, once when the first token arrived
+    assert.match(output, /^mcp_jwks_fetch_duration_seconds_count\{issuer="[^"]+"\} 2$/m);
+    assert.match(output, /^mcp_active_sessions 1$/m);
+    assert.match(output, /^mcp_requests_total\{method="initialize"\} 1$/m);
+    // The purge call was denied by the access policy before reaching the endpoint
+    assert.match(output, /^mcp_requests_total\{method="tools\/call"\} 1$/m);
+    assert.match(output, /^mcp_tool_call_duration_seconds_count\{outcome="success",tool="echo"\} 1$/m);
+  });
+});
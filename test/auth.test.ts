@@ -0,0 +1,79 @@
+/**
+ * Token verifier behaviour when a trusted issuer is unreachable: request timeouts and the
+ * backoff before discovery is retried for incoming tokens.
+ */
+
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTokenVerifier } from '../src/auth.js';
+import { MockOidc, startMockOidc } from './mock-oidc.js';
+
+describe('token verifier with an unresponsive issuer', () => {
+  let mock: MockOidc;
+  let hanging: net.Server;
+  let hangingIssuer: string;
+  // Connections accepted by the issuer that never answers, i.e. discovery attempts
+  let connections = 0;
+  const sockets = new Set<net.Socket>();
+
+  before(async () => {
+    mock = await startMockOidc({ audience: 'http://localhost/mcp' });
+    hanging = net.createServer((socket) => {
+      connections++;
+      sockets.add(socket);
+      socket.on('error', () => {});
+    });
+    await new Promise<void>((resolve) => hanging.listen(0, '127.0.0.1', resolve));
+    hangingIssuer = `http://127.0.0.1:${(hanging.address() as AddressInfo).port}/realms/down`;
+  });
+
+  after(async () => {
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+    await new Promise((resolve) => hanging.close(resolve));
+    await mock.close();
+  });
+
+  it('times out discovery and does not retry it for every token', async () => {
+    const verifier = createTokenVerifier({
+      trustedIssuers: [mock.issuer, hangingIssuer],
+      audiences: ['http://localhost/mcp'],
+      requestTimeout: 0.2,
+      discoveryRetryDelay: 60,
+    });
+    const token = await mock.signToken({ iss: hangingIssuer });
+
+    const started = Date.now();
+    const first = await verifier.verify(token);
+    assert.equal(first.valid, false);
+    assert.equal(first.reason, 'issuer_unavailable');
+    assert.ok(Date.now() - started < 5000, 'gives up after the request timeout');
+    const attempts = connections;
+    assert.ok(attempts > 0);
+
+    const second = await verifier.verify(token);
+    assert.equal(second.reason, 'issuer_unavailable');
+    assert.equal(connections, attempts, 'no discovery while backing off');
+
+    // Tokens from the healthy issuer are unaffected
+    assert.equal((await verifier.verify(await mock.signToken())).valid, true);
+  });
+
+  it('retries discovery once the delay has passed', async () => {
+    const verifier = createTokenVerifier({
+      trustedIssuers: [hangingIssuer],
+      audiences: ['http://localhost/mcp'],
+      requestTimeout: 0.1,
+      discoveryRetryDelay: 0,
+    });
+    const token = await mock.signToken({ iss: hangingIssuer });
+
+    await verifier.verify(token);
+    const attempts = connections;
+    await verifier.verify(token);
+    assert.ok(connections > attempts);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Configuration loading: defaults, config file, environment overrides and validation errors.
+ */
+
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ConfigError, configFilePath, diagnoseConfig, loadConfig } from '../src/config.js';
+
+function writeConfig(name: string, content: string): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'mcp-config-')), name);
+  writeFileSync(path, content);
+  return path;
+}
+
+function configErrors(load: () => unknown): string[] {
+  try {
+    load();
+  } catch (error) {
+    assert.ok(error instanceof ConfigError);
+    return error.issues;
+  }
+  assert.fail('expected a ConfigError');
+}
+
+describe('loadConfig', () => {
+  it('applies defaults when nothing is configured', () => {
+    const config = loadConfig({ env: {} });
+    assert.equal(config.port, 3001);
+    assert.equal(config.keycloak.realm, 'mcp-demo');
+    assert.equal(config.introspection.mode, 'jwks');
+    assert.equal(config.auth.strictAudience, true);
+    assert.equal(config.introspection.cacheMaxEntries, 10000);
+    assert.deepEqual(config.cors.origins, ['*']);
+    assert.equal(config.startup.failFast, false);
+  });
+
+  it('reads YAML and JSON files, with environment variables taking precedence', () => {
+    const yaml = writeConfig('server.yaml', 'port: 4000\nkeycloak:\n  realm: corp\nauth:\n  audiences: [a, b]\n');
+    const config = loadConfig({ file: yaml, env: { MCP_PORT: '5000', MCP_ALLOWED_CLIENTS: 'one, two' } });
+    assert.equal(config.port, 5000);
+    assert.equal(config.keycloak.realm, 'corp');
+    assert.deepEqual(config.auth.audiences, ['a', 'b']);
+    assert.deepEqual(config.auth.allowedClients, ['one', 'two']);
+
+    const cache = loadConfig({ env: { MCP_INTROSPECTION_CACHE_TTL: '5', MCP_INTROSPECTION_CACHE_MAX_ENTRIES: '500' } }).introspection;
+    assert.deepEqual([cache.cacheTtl, cache.cacheMaxEntries], [5, 500]);
+
+    const json = writeConfig('server.json', JSON.stringify({ sessions: { maxPerUser: 3 } }));
+    assert.equal(loadConfig({ file: json, env: {} }).sessions.maxPerUser, 3);
+  });
+
+  it('reads per-tool rate limits from a mapping or name=value pairs', () => {
+    const file = writeConfig('server.yaml', 'rateLimit:\n  tools:\n    greet: 10\n');
+    assert.deepEqual(loadConfig({ file, env: {} }).rateLimit.tools, { greet: 10 });
+    assert.deepEqual(loadConfig({ env: { MCP_RATE_LIMIT_TOOLS: 'greet=10, whoami=0' } }).rateLimit.tools, { greet: 10, whoami: 0 });
+    assert.match(configErrors(() => loadConfig({ env: { MCP_RATE_LIMIT_TOOLS: 'greet' } })).join('\n'), /rateLimit\.tools\.greet \(/);
+    assert.equal(loadConfig({ env: { MCP_RATE_LIMIT_REGISTRATIONS: '3' } }).rateLimit.registrations, 3);
+  });
+
+  it('only allows `*` as the port of a redirect URI pattern', () => {
+    const env = { MCP_DCR_REDIRECT_URI_PATTERNS: 'http://localhost:*, http://localhost:*/callback' };
+    assert.equal(loadConfig({ env }).registration.redirectUriPatterns.length, 2);
+    assert.match(
+      configErrors(() => loadConfig({ env: { MCP_DCR_REDIRECT_URI_PATTERNS: 'https://*.example.com/callback' } })).join('\n'),
+      /registration\.redirectUriPatterns\.0 \(MCP_DCR_REDIRECT_URI_PATTERNS\)/
+    );
+  });
+
+  it('reads trustProxy as a flag, a hop count or a list of addresses', () => {
+    assert.equal(loadConfig({ env: {} }).trustProxy, false);
+    assert.equal(loadConfig({ env: { MCP_TRUST_PROXY: 'true' } }).trustProxy, true);
+    assert.equal(loadConfig({ env: { MCP_TRUST_PROXY: '2' } }).trustProxy, 2);
+    assert.deepEqual(loadConfig({ env: { MCP_TRUST_PROXY: 'loopback, 10.0.0.0/8' } }).trustProxy, ['loopback', '10.0.0.0/8']);
+  });
+
+  it('treats empty environment variables as unset', () => {
+    assert.equal(loadConfig({ env: { MCP_PORT: '', MCP_STRICT_AUDIENCE: '' } }).port, 3001);
+  });
+
+  it('reports every invalid value with its source', () => {
+    const file = writeConfig('server.yaml', 'keycloak:\n  reaml: typo\nauth:\n  trustedIssuers: [not-a-url]\n');
+    const issues = configErrors(() => loadConfig({ file, env: { MCP_PORT: 'abc', MCP_STRICT_AUDIENCE: 'yes' } }));
+
+    assert.ok(issues.some((issue) => issue.startsWith('port (MCP_PORT)')));
+    assert.ok(issues.some((issue) => issue.startsWith('auth.strictAudience (MCP_STRICT_AUDIENCE)')));
+    assert.ok(issues.some((issue) => issue.startsWith(`auth.trustedIssuers.0 (${file})`)));
+    assert.ok(issues.some((issue) => issue.includes('reaml')));
+  });
+
+  it('requires a client secret for introspection and both TLS files', () => {
+    assert.match(configErrors(() => loadConfig({ env: { MCP_TOKEN_VALIDATION: 'introspection' } })).join('\n'), /keycloak\.clientSecret/);
+    assert.match(configErrors(() => loadConfig({ env: { MCP_TLS_CERT: 'cert.pem' } })).join('\n'), /certFile and keyFile/);
+  });
+
+  it('requires a Redis URL for the Redis session store', () => {
+    assert.match(configErrors(() => loadConfig({ env: { MCP_SESSION_STORE: 'redis' } })).join('\n'), /redis\.url/);
+    assert.match(configErrors(() => loadConfig({ env: { MCP_REDIS_URL: 'http://redis:6379' } })).join('\n'), /redis\.url \(MCP_REDIS_URL\)/);
+
+    const config = loadConfig({ env: { MCP_SESSION_STORE: 'redis', MCP_REDIS_URL: 'rediss://:secret@redis:6380/1', MCP_SESSION_RESUMABILITY: 'true' } });
+    assert.equal(config.sessions.store, 'redis');
+    assert.equal(config.sessions.resumable, true);
+    assert.equal(config.redis.prefix, 'mcp:');
+  });
+
+  it('reports unreadable and malformed files', () => {
+    assert.match(configErrors(() => loadConfig({ file: '/nonexistent/server.yaml', env: {} }))[0], /ENOENT/);
+    assert.match(configErrors(() => loadConfig({ file: writeConfig('list.yaml', '- a\n- b\n'), env: {} }))[0], /mapping/);
+  });
+});
+
+describe('configFilePath', () => {
+  it('prefers --config over MCP_CONFIG_FILE', () => {
+    assert.equal(configFilePath(['--config', 'a.yaml'], { MCP_CONFIG_FILE: 'b.yaml' }), 'a.yaml');
+    assert.equal(configFilePath([], { MCP_CONFIG_FILE: 'b.yaml' }), 'b.yaml');
+    assert.equal(configFilePath([], {}), undefined);
+  });
+});
+
+describe('diagnoseConfig', () => {
+  it('warns about registration without a secret and public plain-HTTP URLs', () => {
+    const warnings = diagnoseConfig(loadConfig({ env: { MCP_DCR_ENABLED: 'true' } }), 'http://mcp.example.com');
+    assert.ok(warnings.some((warning) => warning.includes('KEYCLOAK_CLIENT_SECRET')));
+    assert.ok(warnings.some((warning) => warning.includes('not HTTPS')));
+    assert.ok(!warnings.some((warning) => warning.includes('not rate limited')));
+    assert.ok(
+      diagnoseConfig(loadConfig({ env: { MCP_DCR_ENABLED: 'true', MCP_RATE_LIMIT_REGISTRATIONS: '0' } }), 'http://localhost:3001')
+        .some((warning) => warning.includes('not rate limited'))
+    );
+
+    assert.deepEqual(diagnoseConfig(loadConfig({ env: { KEYCLOAK_CLIENT_SECRET: 's' } }), 'http://localhost:3001'), []);
+  });
+});
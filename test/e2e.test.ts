@@ -0,0 +1,410 @@
+/**
+ * End-to-end tests: runs src/server.ts against the in-process mock OIDC provider and exercises
+ * it over HTTP the way MCP clients do. Needs no network access or Keycloak.
+ */
+
+import { ChildProcess, spawn } from 'child_process';
+import * as net from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockOidc, startMockOidc } from './mock-oidc.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'e2e-test', version: '1.0.0' },
+  },
+};
+
+interface McpResponse {
+  status: number;
+  headers: Headers;
+  // JSON-RPC messages from a JSON or SSE body, or the plain JSON error body
+  messages: any[];
+}
+
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function startServer(port: number, mock: MockOidc, env: Record<string, string> = {}): Promise<ChildProcess> {
+  const child = spawn(process.execPath, ['--import', 'tsx', 'src/server.ts'], {
+    env: {
+      ...process.env,
+      MCP_PORT: String(port),
+      MCP_SERVER_URL: `http://127.0.0.1:${port}`,
+      KEYCLOAK_URL: mock.baseUrl,
+      KEYCLOAK_REALM: mock.realm,
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  child.stdout!.on('data', (chunk) => (output += chunk));
+  child.stderr!.on('data', (chunk) => (output += chunk));
+
+  const deadline = Date.now() + 20_000;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`Server exited with ${child.exitCode}:\n${output}`);
+    }
+    try {
+      if ((await fetch(`http://127.0.0.1:${port}/health`)).ok) {
+        return child;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+
+  child.kill();
+  throw new Error(`Server did not start:\n${output}`);
+}
+
+async function stopServer(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null) {
+    return;
+  }
+  const exited = new Promise((resolve) => child.once('exit', resolve));
+  child.kill('SIGTERM');
+  await exited;
+}
+
+describe('MCP server with OAuth', () => {
+  let mock: MockOidc;
+  let server: ChildProcess;
+  let baseUrl: string;
+  let resource: string;
+
+  async function mcp(method: 'POST' | 'GET' | 'DELETE', options: { token?: string; sessionId?: string; body?: unknown } = {}): Promise<McpResponse> {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method,
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        ...(options.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(options.token ? { Authorization: `Bearer ${options.token}` } : {}),
+        ...(options.sessionId ? { 'mcp-session-id': options.sessionId } : {}),
+      },
+      body: options.body ? JSON.stringify(options.body) : undefined,
+    });
+
+    const text = await response.text();
+    const messages = (response.headers.get('content-type') ?? '').includes('text/event-stream')
+      ? text.split('\n').filter((line) => line.startsWith('data:')).map((line) => JSON.parse(line.slice(5)))
+      : text ? [JSON.parse(text)] : [];
+
+    return { status: response.status, headers: response.headers, messages };
+  }
+
+  async function initialize(token: string): Promise<string> {
+    const response = await mcp('POST', { token, body: INITIALIZE });
+    assert.equal(response.status, 200);
+    const sessionId = response.headers.get('mcp-session-id');
+    assert.ok(sessionId, 'initialize returns a session id');
+
+    const initialized = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', method: 'notifications/initialized' } });
+    assert.equal(initialized.status, 202);
+    return sessionId;
+  }
+
+  before(async () => {
+    const port = await freePort();
+    baseUrl = `http://127.0.0.1:${port}`;
+    resource = `${baseUrl}/mcp`;
+    mock = await startMockOidc({ audience: resource });
+    server = await startServer(port, mock);
+  });
+
+  after(async () => {
+    await stopServer(server);
+    await mock.close();
+  });
+
+  describe('health', () => {
+    it('reports liveness and readiness with issuer checks, sessions and uptime', async () => {
+      const live = await fetch(`${baseUrl}/health/live`);
+      assert.equal(live.status, 200);
+      assert.equal((await live.json()).status, 'ok');
+
+      const ready = await fetch(`${baseUrl}/health/ready`);
+      assert.equal(ready.status, 200);
+      const report = await ready.json();
+      assert.equal(report.status, 'ok');
+      assert.equal(typeof report.sessions, 'number');
+      assert.equal(typeof report.uptime, 'number');
+      assert.equal(report.issuers[0].issuer, mock.issuer);
+      assert.equal(report.issuers[0].ready, true);
+      assert.equal(report.issuers[0].keys, 1);
+    });
+  });
+
+  describe('discovery', () => {
+    it('serves protected resource metadata naming the issuer', async () => {
+      const response = await fetch(`${baseUrl}/.well-known/oauth-protected-resource`);
+      assert.equal(response.status, 200);
+
+      const metadata = (await response.json()) as any;
+      assert.equal(metadata.resource, resource);
+      assert.deepEqual(metadata.authorization_servers, [mock.issuer]);
+      assert.ok(metadata.scopes_supported.includes('mcp:read'));
+    });
+
+    it('challenges unauthenticated requests with the resource metadata URL', async () => {
+      const response = await mcp('POST', { body: INITIALIZE });
+      assert.equal(response.status, 401);
+      assert.equal(
+        response.headers.get('www-authenticate'),
+        `Bearer resource_metadata="${baseUrl}/.well-known/oauth-protected-resource"`
+      );
+    });
+  });
+
+  describe('token validation', () => {
+    const rejects = async (token: string, reason: RegExp) => {
+      const response = await mcp('POST', { token, body: INITIALIZE });
+      assert.equal(response.status, 401);
+
+      const challenge = response.headers.get('www-authenticate') ?? '';
+      assert.match(challenge, /^Bearer /);
+      assert.match(challenge, /error="invalid_token"/);
+      assert.match(challenge, /resource_metadata="[^"]+"/);
+      assert.equal(response.messages[0].error, 'invalid_token');
+      assert.match(response.messages[0].error_description, reason);
+    };
+
+    it('accepts a valid token', async () => {
+      const response = await mcp('POST', { token: await mock.signToken(), body: INITIALIZE });
+      assert.equal(response.status, 200);
+      assert.equal(response.messages[0].result.serverInfo.name, 'mcp-oauth-keycloak-server');
+    });
+
+    it('rejects an expired token', async () => {
+      await rejects(await mock.signToken({}, { expiresIn: Math.floor(Date.now() / 1000) - 60 }), /exp/i);
+    });
+
+    it('rejects a token from an untrusted issuer', async () => {
+      await rejects(await mock.signToken({ iss: 'https://evil.example.com/realms/mcp-demo' }), /issuer/i);
+    });
+
+    it('rejects a token for another audience', async () => {
+      await rejects(await mock.signToken({ aud: 'https://other.example.com/mcp' }), /audience/i);
+    });
+
+    it('rejects a token signed with an unknown key', async () => {
+      await rejects(await mock.signToken({}, { key: 'untrusted' }), /.+/);
+    });
+
+    it('rejects a malformed token', async () => {
+      await rejects('not-a-jwt', /.+/);
+    });
+  });
+
+  describe('sessions', () => {
+    it('reuses a session across requests', async () => {
+      const token = await mock.signToken();
+      const sessionId = await initialize(token);
+
+      const first = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+      const second = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 3, method: 'ping' } });
+      assert.equal(first.status, 200);
+      assert.equal(second.status, 200);
+      assert.deepEqual(second.messages[0], { jsonrpc: '2.0', id: 3, result: {} });
+    });
+
+    it('answers 404 for unknown sessions', async () => {
+      const response = await mcp('POST', {
+        token: await mock.signToken(),
+        sessionId: 'no-such-session',
+        body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      });
+      assert.equal(response.status, 404);
+    });
+
+    it('refuses anything but initialize without a session', async () => {
+      const token = await mock.signToken();
+      for (const body of [{ jsonrpc: '2.0', id: 2, method: 'tools/list' }, [INITIALIZE, { jsonrpc: '2.0', id: 3, method: 'ping' }]]) {
+        const response = await mcp('POST', { token, body });
+        assert.equal(response.status, 400);
+        assert.equal(response.headers.get('mcp-session-id'), null);
+      }
+    });
+
+    it('refuses a session to a different user', async () => {
+      const sessionId = await initialize(await mock.signToken());
+      const response = await mcp('POST', {
+        token: await mock.signToken({ sub: 'user-2', preferred_username: 'someone-else' }),
+        sessionId,
+        body: { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      });
+      assert.equal(response.status, 403);
+    });
+
+    it('deletes a session on request', async () => {
+      const token = await mock.signToken();
+      const sessionId = await initialize(token);
+
+      const deleted = await mcp('DELETE', { token, sessionId });
+      assert.equal(deleted.status, 204);
+
+      const after = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+      assert.equal(after.status, 404);
+    });
+  });
+
+  describe('tools', () => {
+    it('lists the tools the token grants', async () => {
+      const token = await mock.signToken();
+      const sessionId = await initialize(token);
+
+      const response = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+      const names = response.messages[0].result.tools.map((tool: any) => tool.name);
+      assert.deepEqual(names.sort(), ['greet', 'whoami']);
+    });
+
+    it('offers write and admin tools to tokens with mcp:write and mcp-admin', async () => {
+      const token = await mock.signToken({ scope: 'openid mcp:read mcp:write', realm_access: { roles: ['mcp-user', 'mcp-admin'] } });
+      const sessionId = await initialize(token);
+
+      const response = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+      const names = response.messages[0].result.tools.map((tool: any) => tool.name);
+      assert.deepEqual(names.sort(), ['greet', 'server-status', 'set-greeting', 'whoami']);
+
+      await mcp('POST', {
+        token,
+        sessionId,
+        body: { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'set-greeting', arguments: { greeting: 'Good morning' } } },
+      });
+      const greeted = await mcp('POST', {
+        token,
+        sessionId,
+        body: { jsonrpc: '2.0', id: 4, method: 'tools/call', params: { name: 'greet', arguments: { name: 'Ada' } } },
+      });
+      assert.match(greeted.messages[0].result.content[0].text, /^Good morning, Ada!/);
+    });
+
+    it('calls a tool', async () => {
+      const token = await mock.signToken();
+      const sessionId = await initialize(token);
+
+      const response = await mcp('POST', {
+        token,
+        sessionId,
+        body: { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'greet', arguments: { name: 'Ada' } } },
+      });
+      assert.equal(response.status, 200);
+      assert.match(response.messages[0].result.content[0].text, /Hello, Ada!/);
+    });
+
+    it('passes the caller identity to tools', async () => {
+      const token = await mock.signToken();
+      const sessionId = await initialize(token);
+
+      const response = await mcp('POST', {
+        token,
+        sessionId,
+        body: { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'whoami', arguments: {} } },
+      });
+      const identity = JSON.parse(response.messages[0].result.content[0].text);
+      assert.equal(identity.subject, 'user-1');
+      assert.equal(identity.username, 'testuser');
+    });
+
+    it('hides and refuses tools without the required scope', async () => {
+      const token = await mock.signToken({ scope: 'openid profile' });
+      const sessionId = await initialize(token);
+
+      const list = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 2, method: 'tools/list' } });
+      assert.deepEqual(list.messages[0].result.tools.map((tool: any) => tool.name), ['whoami']);
+
+      const call = await mcp('POST', {
+        token,
+        sessionId,
+        body: { jsonrpc: '2.0', id: 3, method: 'tools/call', params: { name: 'greet', arguments: { name: 'Ada' } } },
+      });
+      assert.equal(call.status, 403);
+      assert.match(call.headers.get('www-authenticate') ?? '', /error="insufficient_scope"/);
+      assert.match(call.headers.get('www-authenticate') ?? '', /scope="mcp:read"/);
+    });
+    it('serves the stepped-up grants of a new token within the same session', async () => {
+      const token = await mock.signToken({ scope: 'openid mcp:read' });
+      const sessionId = await initialize(token);
+      const setGreeting = { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'set-greeting', arguments: { greeting: 'Howdy' } } };
+
+      const denied = await mcp('POST', { token, sessionId, body: setGreeting });
+      assert.equal(denied.status, 403);
+      assert.match(denied.headers.get('www-authenticate') ?? '', /scope="mcp:write"/);
+
+      // The client re-authorizes for mcp:write and retries on the same session
+      const stepped = await mock.signToken({ scope: 'openid mcp:read mcp:write' });
+      const list = await mcp('POST', { token: stepped, sessionId, body: { jsonrpc: '2.0', id: 3, method: 'tools/list' } });
+      assert.ok(list.messages[0].result.tools.some((tool: any) => tool.name === 'set-greeting'));
+
+      const call = await mcp('POST', { token: stepped, sessionId, body: { ...setGreeting, id: 4 } });
+      assert.equal(call.status, 200);
+      assert.equal(call.messages[0].result.isError, undefined);
+
+      // Back on the original token, the write tool is hidden again
+      const narrowed = await mcp('POST', { token, sessionId, body: { jsonrpc: '2.0', id: 5, method: 'tools/list' } });
+      assert.ok(!narrowed.messages[0].result.tools.some((tool: any) => tool.name === 'set-greeting'));
+    });
+  });
+
+  describe('introspection mode', () => {
+    let introspectingServer: ChildProcess;
+    let introspectingUrl: string;
+
+    before(async () => {
+      const port = await freePort();
+      introspectingUrl = `http://127.0.0.1:${port}/mcp`;
+      introspectingServer = await startServer(port, mock, {
+        MCP_TOKEN_VALIDATION: 'introspection',
+        KEYCLOAK_CLIENT_SECRET: 'test-secret',
+        // The mock's tokens name the first server's resource
+        MCP_AUDIENCES: resource,
+        MCP_INTROSPECTION_CACHE_TTL: '0',
+      });
+    });
+
+    after(async () => {
+      await stopServer(introspectingServer);
+    });
+
+    const initializeStatus = async (token: string) => {
+      const response = await fetch(introspectingUrl, {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json, text/event-stream',
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify(INITIALIZE),
+      });
+      await response.body?.cancel();
+      return response.status;
+    };
+
+    it('accepts active tokens', async () => {
+      assert.equal(await initializeStatus(await mock.signToken()), 200);
+      assert.ok(mock.requests.includes(`POST /realms/${mock.realm}/protocol/openid-connect/token/introspect`));
+    });
+
+    it('rejects revoked tokens', async () => {
+      const jti = 'revoked-token';
+      mock.revokedJtis.add(jti);
+      assert.equal(await initializeStatus(await mock.signToken({ jti })), 401);
+    });
+  });
+});
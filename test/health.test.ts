@@ -0,0 +1,72 @@
+/**
+ * Readiness: issuer checks, last-known-good grace period and the readiness status codes.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { IssuerStatus, TokenVerifier } from '../src/auth.js';
+import { checkReadiness } from '../src/health.js';
+
+function verifierWith(statuses: IssuerStatus[]): TokenVerifier {
+  return {
+    verify: async () => ({ valid: false }),
+    check: async () => statuses,
+    status: () => statuses,
+    initialize: async () => {},
+  };
+}
+
+const secondsAgo = (seconds: number) => new Date(Date.now() - seconds * 1000).toISOString();
+
+describe('checkReadiness', () => {
+  it('is ok when every issuer passed its latest check', () => {
+    const now = secondsAgo(0);
+    const report = checkReadiness({
+      verifier: verifierWith([{ issuer: 'https://a', ok: true, keys: 2, checkedAt: now, lastSuccessAt: now }]),
+    });
+    assert.equal(report.status, 'ok');
+    assert.equal(report.issuers[0].ready, true);
+    assert.equal(report.sessions, undefined);
+  });
+
+  it('stays ready on cached keys after a recent success, until they are too stale', () => {
+    const failing = (lastSuccess: number): IssuerStatus => ({
+      issuer: 'https://a',
+      ok: false,
+      error: 'fetch failed',
+      keys: 2,
+      checkedAt: secondsAgo(0),
+      lastSuccessAt: secondsAgo(lastSuccess),
+    });
+
+    const recent = checkReadiness({ verifier: verifierWith([failing(60)]), maxStaleness: 300 });
+    assert.equal(recent.status, 'degraded');
+    assert.equal(recent.issuers[0].ready, true);
+
+    const stale = checkReadiness({ verifier: verifierWith([failing(600)]), maxStaleness: 300 });
+    assert.equal(stale.status, 'unavailable');
+    assert.equal(stale.issuers[0].ready, false);
+  });
+
+  it('is unavailable when no issuer ever passed', () => {
+    const report = checkReadiness({
+      verifier: verifierWith([
+        { issuer: 'https://a', ok: false, error: 'Not checked yet', checkedAt: secondsAgo(0) },
+        { issuer: 'https://b', ok: false, error: 'fetch failed', checkedAt: secondsAgo(0) },
+      ]),
+    });
+    assert.equal(report.status, 'unavailable');
+  });
+
+  it('is degraded while one of several issuers is down', () => {
+    const now = secondsAgo(0);
+    const report = checkReadiness({
+      verifier: verifierWith([
+        { issuer: 'https://a', ok: true, checkedAt: now, lastSuccessAt: now },
+        { issuer: 'https://b', ok: false, error: 'fetch failed', checkedAt: now },
+      ]),
+    });
+    assert.equal(report.status, 'degraded');
+    assert.deepEqual(report.issuers.map((issuer) => issuer.ready), [true, false]);
+  });
+});
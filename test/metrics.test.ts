@@ -0,0 +1,79 @@
+/**
+ * Metrics registry: Prometheus text format, labels and histogram buckets.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { countMcpRequests, createMcpMetrics, createMetricsRegistry } from '../src/metrics.js';
+
+describe('createMetricsRegistry', () => {
+  it('renders counters and gauges with escaped labels', () => {
+    const registry = createMetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests');
+    const up = registry.gauge('up', 'Up');
+
+    requests.inc({ method: 'GET' });
+    requests.inc({ method: 'GET' }, 2);
+    requests.inc({ method: 'say "hi"\n' });
+    up.set(undefined, 1);
+
+    assert.equal(
+      registry.render(),
+      [
+        '# HELP requests_total Requests',
+        '# TYPE requests_total counter',
+        'requests_total{method="GET"} 3',
+        'requests_total{method="say \\"hi\\"\\n"} 1',
+        '# HELP up Up',
+        '# TYPE up gauge',
+        'up 1',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('renders cumulative histogram buckets, sum and count', () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+    latency.observe({ tool: 'echo' }, 0.05);
+    latency.observe({ tool: 'echo' }, 0.5);
+    latency.observe({ tool: 'echo' }, 3);
+
+    const lines = registry.render().split('\n');
+    assert.deepEqual(lines.slice(2, 7), [
+      'latency_seconds_bucket{tool="echo",le="0.1"} 1',
+      'latency_seconds_bucket{tool="echo",le="1"} 2',
+      'latency_seconds_bucket{tool="echo",le="+Inf"} 3',
+      'latency_seconds_sum{tool="echo"} 3.55',
+      'latency_seconds_count{tool="echo"} 3',
+    ]);
+  });
+
+  it('runs collectors before rendering and rejects duplicate names', () => {
+    const registry = createMetricsRegistry();
+    const sessions = registry.gauge('sessions', 'Sessions');
+    let open = 0;
+    registry.onCollect(() => sessions.set(undefined, open));
+
+    open = 4;
+    assert.match(registry.render(), /^sessions 4$/m);
+    assert.throws(() => registry.counter('sessions', 'Again'), /already registered/);
+  });
+});
+
+describe('countMcpRequests', () => {
+  it('counts batches by method and collapses unknown methods', () => {
+    const metrics = createMcpMetrics();
+    countMcpRequests(metrics, [
+      { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'echo' } },
+      { jsonrpc: '2.0', method: 'x-custom/anything' },
+      { jsonrpc: '2.0', id: 2, result: {} },
+    ]);
+
+    const output = metrics.registry.render();
+    assert.match(output, /^mcp_requests_total\{method="tools\/call"\} 1$/m);
+    assert.match(output, /^mcp_requests_total\{method="other"\} 1$/m);
+    assert.ok(!output.includes('x-custom'));
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * In-process mock of the Keycloak endpoints the MCP server talks to: OIDC discovery, JWKS, token,
+ * introspection, and the admin API's client endpoints used by registration. Tokens are signed with
+ * a key generated per run, so tests can mint valid, expired, foreign-issuer or foreign-key tokens
+ * without a real Keycloak.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as jose from 'jose';
+
+export interface MockOidc {
+  baseUrl: string;
+  realm: string;
+  issuer: string;
+  // Sign an access token; claims override the defaults (a testuser token for the MCP resource)
+  signToken(claims?: jose.JWTPayload, options?: { expiresIn?: string | number; key?: 'trusted' | 'untrusted' }): Promise<string>;
+  // Tokens whose jti is listed here introspect as inactive
+  revokedJtis: Set<string>;
+  // Clients created through the admin API, keyed by their internal ID
+  clients: Map<string, any>;
+  requests: string[];
+  close(): Promise<void>;
+}
+
+export async function startMockOidc(options: { audience: string; realm?: string }): Promise<MockOidc> {
+  const realm = options.realm ?? 'mcp-demo';
+  const trusted = await jose.generateKeyPair('RS256');
+  const untrusted = await jose.generateKeyPair('RS256');
+  const jwk = { ...(await jose.exportJWK(trusted.publicKey)), kid: 'trusted', alg: 'RS256', use: 'sig' };
+
+  const revokedJtis = new Set<string>();
+  const clients = new Map<string, any>();
+  const requests: string[] = [];
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url!, mock.baseUrl);
+    requests.push(`${req.method} ${url.pathname}`);
+
+    let body = '';
+    for await (const chunk of req) {
+      body += chunk;
+    }
+    const form = new URLSearchParams(body);
+
+    const json = (status: number, payload: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    };
+
+    const clientsPath = `/admin/realms/${realm}/clients`;
+    if (url.pathname === clientsPath || url.pathname.startsWith(`${clientsPath}/`)) {
+      const id = url.pathname.slice(clientsPath.length + 1);
+      const client = clients.get(id);
+      if (req.method === 'GET' && !id) {
+        return json(200, [...clients.values()].filter((candidate) => candidate.clientId === url.searchParams.get('clientId')));
+      }
+      if (req.method === 'POST' && !id) {
+        const created = { ...JSON.parse(body), id: crypto.randomUUID() };
+        clients.set(created.id, created);
+        res.writeHead(201, { Location: `${mock.baseUrl}${clientsPath}/${created.id}` });
+        return res.end();
+      }
+      if (!client) {
+        return json(404, { error: 'Could not find client' });
+      }
+      if (req.method === 'PUT') {
+        clients.set(id, { ...JSON.parse(body), id });
+      } else if (req.method === 'DELETE') {
+        clients.delete(id);
+      } else {
+        return json(200, client);
+      }
+      res.writeHead(204);
+      return res.end();
+    }
+
+    const realmPath = `/realms/${realm}`;
+    switch (url.pathname) {
+      case `${realmPath}/.well-known/openid-configuration`:
+        return json(200, {
+          issuer: mock.issuer,
+          authorization_endpoint: `${mock.issuer}/protocol/openid-connect/auth`,
+          token_endpoint: `${mock.issuer}/protocol/openid-connect/token`,
+          introspection_endpoint: `${mock.issuer}/protocol/openid-connect/token/introspect`,
+          jwks_uri: `${mock.issuer}/protocol/openid-connect/certs`,
+        });
+
+      case `${realmPath}/protocol/openid-connect/certs`:
+        return json(200, { keys: [jwk] });
+
+      case `${realmPath}/protocol/openid-connect/token`:
+        if (form.get('grant_type') !== 'client_credentials') {
+          return json(400, { error: 'unsupported_grant_type' });
+        }
+        return json(200, {
+          access_token: await mock.signToken({ sub: 'service-account', azp: form.get('client_id') ?? undefined }),
+          token_type: 'Bearer',
+          expires_in: 300,
+        });
+
+      case `${realmPath}/protocol/openid-connect/token/introspect`: {
+        try {
+          const { payload } = await jose.jwtVerify(form.get('token') ?? '', trusted.publicKey, { issuer: mock.issuer });
+          return json(200, payload.jti && revokedJtis.has(payload.jti) ? { active: false } : { active: true, ...payload });
+        } catch {
+          return json(200, { active: false });
+        }
+      }
+
+      default:
+        return json(404, { error: 'not_found' });
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const mock: MockOidc = {
+    baseUrl: `http://127.0.0.1:${port}`,
+    realm,
+    issuer: `http://127.0.0.1:${port}/realms/${realm}`,
+    revokedJtis,
+    clients,
+    requests,
+
+    async signToken(claims = {}, { expiresIn = '5m', key = 'trusted' } = {}) {
+      return new jose.SignJWT({
+        sub: 'user-1',
+        preferred_username: 'testuser',
+        email: 'testuser@example.com',
+        azp: 'mcp-client',
+        scope: 'openid profile email mcp:read',
+        realm_access: { roles: ['mcp-user'] },
+        aud: options.audience,
+        iss: mock.issuer,
+        jti: crypto.randomUUID(),
+        ...claims,
+      })
+        .setProtectedHeader({ alg: 'RS256', kid: key })
+        .setIssuedAt()
+        .setExpirationTime(expiresIn)
+        .sign(key === 'trusted' ? trusted.privateKey : untrusted.privateKey);
+    },
+
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+
+  return mock;
+}
@@ -0,0 +1,244 @@
+/**
+ * In-process stand-in for the subset of Redis the session and event stores use, speaking RESP2
+ * over TCP so tests exercise connectRedis as well. Keys expire lazily, like Redis does on access.
+ */
+
+import * as net from 'net';
+import { AddressInfo } from 'net';
+
+export interface MockRedis {
+  url: string;
+  // Every command received, e.g. "SET mcp:session:…"
+  commands: string[];
+  // When a key expires (epoch milliseconds), or undefined if it has no expiry
+  expiresAt(key: string): number | undefined;
+  // Drop every open connection, as a Redis restart would
+  disconnectAll(): void;
+  close(): Promise<void>;
+}
+
+type Value = string | string[] | Map<string, number>;
+
+export async function startMockRedis(options: { password?: string } = {}): Promise<MockRedis> {
+  const data = new Map<string, { value: Value; expiresAt?: number }>();
+  const commands: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  function lookup(key: string) {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  const bulk = (value: string | null) => (value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`);
+  const integer = (value: number) => `:${value}\r\n`;
+  const array = (values: string[]) => `*${values.length}\r\n${values.map(bulk).join('')}`;
+
+  function list(key: string): string[] {
+    const entry = lookup(key);
+    return Array.isArray(entry?.value) ? entry.value : [];
+  }
+
+  function sortedSet(key: string): Map<string, number> {
+    const entry = lookup(key);
+    return entry?.value instanceof Map ? entry.value : new Map();
+  }
+
+  function store(key: string, value: Value) {
+    const existing = lookup(key);
+    data.set(key, { value, expiresAt: existing?.expiresAt });
+  }
+
+  // Resolves a negative list index the way LRANGE and LTRIM do
+  const index = (value: string, length: number) => {
+    const n = Number(value);
+    return n < 0 ? Math.max(length + n, 0) : n;
+  };
+
+  // A connection's state; `queued` holds the commands of an open MULTI
+  type Session = { authenticated: boolean; queued?: string[][] };
+
+  function execute(args: string[], session: Session): string {
+    const [name, ...rest] = args;
+    const command = name.toUpperCase();
+    commands.push([command, ...rest.slice(0, 1)].join(' '));
+
+    if (command === 'AUTH') {
+      if (rest.at(-1) !== options.password) {
+        return '-WRONGPASS invalid username-password pair\r\n';
+      }
+      session.authenticated = true;
+      return '+OK\r\n';
+    }
+    if (!session.authenticated) {
+      return '-NOAUTH Authentication required.\r\n';
+    }
+
+    if (command === 'MULTI') {
+      session.queued = [];
+      return '+OK\r\n';
+    }
+    if (command === 'EXEC') {
+      const queued = session.queued;
+      session.queued = undefined;
+      return queued ? `*${queued.length}\r\n${queued.map((queuedArgs) => execute(queuedArgs, session)).join('')}` : '-ERR EXEC without MULTI\r\n';
+    }
+    if (session.queued) {
+      session.queued.push(args);
+      return '+QUEUED\r\n';
+    }
+
+    const [key] = rest;
+    switch (command) {
+      case 'SELECT':
+        return '+OK\r\n';
+      case 'GET': {
+        const value = lookup(key)?.value;
+        return bulk(typeof value === 'string' ? value : null);
+      }
+      case 'SET': {
+        const pxat = rest.findIndex((arg) => arg.toUpperCase() === 'PXAT');
+        data.set(key, { value: rest[1], expiresAt: pxat === -1 ? undefined : Number(rest[pxat + 1]) });
+        return '+OK\r\n';
+      }
+      case 'DEL':
+        return integer(rest.filter((k) => lookup(k) && data.delete(k)).length);
+      case 'EXISTS':
+        return integer(rest.filter((k) => lookup(k)).length);
+      case 'INCR': {
+        const next = Number(lookup(key)?.value ?? 0) + 1;
+        store(key, String(next));
+        return integer(next);
+      }
+      case 'PEXPIRE': {
+        const entry = lookup(key);
+        if (entry) {
+          entry.expiresAt = Date.now() + Number(rest[1]);
+        }
+        return integer(entry ? 1 : 0);
+      }
+      case 'PEXPIREAT': {
+        // NX only sets a first expiry; GT only extends an existing one
+        const entry = lookup(key);
+        const at = Number(rest[1]);
+        const condition = rest[2]?.toUpperCase();
+        const current = entry?.expiresAt;
+        const applies = entry !== undefined &&
+          (condition === 'NX' ? current === undefined : condition === 'GT' ? current !== undefined && at > current : true);
+        if (applies) {
+          entry.expiresAt = at;
+        }
+        return integer(applies ? 1 : 0);
+      }
+      case 'RPUSH': {
+        const values = [...list(key), ...rest.slice(1)];
+        store(key, values);
+        return integer(values.length);
+      }
+      case 'LRANGE': {
+        const values = list(key);
+        return array(values.slice(index(rest[1], values.length), index(rest[2], values.length) + 1));
+      }
+      case 'LTRIM': {
+        const values = list(key);
+        store(key, values.slice(index(rest[1], values.length), index(rest[2], values.length) + 1));
+        return '+OK\r\n';
+      }
+      case 'ZADD': {
+        const members = sortedSet(key);
+        members.set(rest[2], Number(rest[1]));
+        store(key, members);
+        return integer(1);
+      }
+      case 'ZREM': {
+        return integer(sortedSet(key).delete(rest[1]) ? 1 : 0);
+      }
+      case 'ZREMRANGEBYSCORE': {
+        const members = sortedSet(key);
+        const min = rest[1] === '-inf' ? -Infinity : Number(rest[1]);
+        const max = rest[2] === '+inf' ? Infinity : Number(rest[2]);
+        let removed = 0;
+        for (const [member, score] of members) {
+          if (score >= min && score <= max) {
+            members.delete(member);
+            removed++;
+          }
+        }
+        return integer(removed);
+      }
+      case 'ZCARD':
+        return integer(sortedSet(key).size);
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+
+  // Requests arrive as RESP arrays of bulk strings
+  function parseCommand(buffer: Buffer): { args: string[]; length: number } | undefined {
+    let offset = 0;
+    const line = () => {
+      const end = buffer.indexOf('\r\n', offset);
+      if (end === -1) {
+        return undefined;
+      }
+      const text = buffer.toString('utf8', offset + 1, end);
+      offset = end + 2;
+      return text;
+    };
+
+    const count = line();
+    if (count === undefined) {
+      return undefined;
+    }
+    const args: string[] = [];
+    for (let i = 0; i < Number(count); i++) {
+      const length = line();
+      if (length === undefined || buffer.length < offset + Number(length) + 2) {
+        return undefined;
+      }
+      args.push(buffer.toString('utf8', offset, offset + Number(length)));
+      offset += Number(length) + 2;
+    }
+    return { args, length: offset };
+  }
+
+  const server = net.createServer((socket) => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.on('error', () => {});
+
+    const session: Session = { authenticated: !options.password };
+    let buffer = Buffer.alloc(0);
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed;
+      while ((parsed = parseCommand(buffer))) {
+        buffer = buffer.subarray(parsed.length);
+        socket.write(execute(parsed.args, session));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  function disconnectAll() {
+    for (const socket of sockets) {
+      socket.destroy();
+    }
+  }
+
+  return {
+    url: `redis://${options.password ? `:${encodeURIComponent(options.password)}@` : ''}127.0.0.1:${port}/0`,
+    commands,
+    expiresAt: (key) => lookup(key)?.expiresAt,
+    disconnectAll,
+    async close() {
+      disconnectAll();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Rate limiting: per-principal and per-tool limits, the per-IP limit on failed authentication,
+ * and the 429 response format. Runs the limiter on a bare Express app with a stub auth middleware.
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuditRecord, createAuditLogger } from '../src/audit.js';
+import { RateLimiter, RateLimitStore, createMemoryRateLimitStore, createRateLimiter } from '../src/ratelimit.js';
+
+describe('createMemoryRateLimitStore', () => {
+  it('counts hits per key within a fixed window', async () => {
+    const store = createMemoryRateLimitStore();
+    assert.equal((await store.increment('a', 60_000)).count, 1);
+    assert.equal((await store.increment('a', 60_000)).count, 2);
+    assert.equal((await store.increment('b', 60_000)).count, 1);
+    assert.equal((await store.increment('a', 60_000)).count, 3);
+
+    assert.equal((await store.increment('c', 1)).count, 1);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    assert.equal((await store.increment('c', 1)).count, 1, 'expired windows start over');
+    await store.close!();
+  });
+});
+
+describe('createRateLimiter', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let limiter: RateLimiter;
+  const auditRecords: AuditRecord[] = [];
+
+  before(async () => {
+    limiter = createRateLimiter({
+      requests: 5,
+      unauthenticated: 2,
+      toolCalls: 2,
+      tools: { expensive: 1, free: 0 },
+      audit: createAuditLogger([{ write: (record) => auditRecords.push(record) }]),
+    });
+
+    // Stand-in for the OAuth middleware: the bearer token is the subject
+    const authenticate: express.RequestHandler = async (req, res, next) => {
+      const subject = req.headers.authorization?.replace(/^Bearer /, '');
+      if (!subject) {
+        if (!(await limiter.limitFailures(req, res))) {
+          res.status(401).json({ error: 'invalid_token' });
+        }
+        return;
+      }
+      (req as any).auth = { token: subject, clientId: 'client', scopes: [], extra: { context: { subject, clientId: 'client' } } };
+      next();
+    };
+
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', authenticate, limiter.authenticated, (req, res) => {
+      res.json({ jsonrpc: '2.0', result: {}, id: req.body.id ?? null });
+    });
+
+    httpServer = await new Promise<Server>((resolve) => {
+      const server = app.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await limiter.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  async function call(subject: string | undefined, body: unknown) {
+    return fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(subject ? { Authorization: `Bearer ${subject}` } : {}) },
+      body: JSON.stringify(body),
+    });
+  }
+
+  const toolCall = (id: number, name: string) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: {} } });
+
+  it('limits requests per user and client with a JSON-RPC error and Retry-After', async () => {
+    for (let i = 1; i <= 5; i++) {
+      assert.equal((await call('alice', { jsonrpc: '2.0', id: i, method: 'ping' })).status, 200);
+    }
+
+    const limited = await call('alice', { jsonrpc: '2.0', id: 6, method: 'ping' });
+    assert.equal(limited.status, 429);
+    const retryAfter = Number(limited.headers.get('retry-after'));
+    assert.ok(retryAfter >= 1 && retryAfter <= 60);
+    const body = await limited.json();
+    assert.equal(body.jsonrpc, '2.0');
+    assert.equal(body.id, 6);
+    assert.match(body.error.message, /Rate limit exceeded/);
+    assert.equal(body.error.data.retryAfter, retryAfter);
+
+    // Other users have their own budget
+    assert.equal((await call('bob', { jsonrpc: '2.0', id: 1, method: 'ping' })).status, 200);
+
+    const record = auditRecords.find((entry) => entry.event === 'rate.limited') as any;
+    assert.equal(record.limit, 'requests');
+    assert.equal(record.subject, 'alice');
+  });
+
+  it('applies per-tool limits, with overrides, to the offending call', async () => {
+    assert.equal((await call('carol', toolCall(1, 'cheap'))).status, 200);
+    assert.equal((await call('carol', toolCall(2, 'cheap'))).status, 200);
+    const limited = await call('carol', toolCall(3, 'cheap'));
+    assert.equal(limited.status, 429);
+    const body = await limited.json();
+    assert.equal(body.id, 3);
+    assert.match(body.error.message, /tool cheap/);
+
+    assert.equal((await call('dave', toolCall(1, 'expensive'))).status, 200);
+    assert.equal((await call('dave', toolCall(2, 'expensive'))).status, 429);
+
+    // A limit of 0 exempts the tool
+    assert.equal((await call('dave', toolCall(3, 'free'))).status, 200);
+    assert.equal((await call('dave', toolCall(4, 'free'))).status, 200);
+  });
+
+  it('answers repeated failed authentications from an IP with 429, but still serves valid tokens from it', async () => {
+    assert.equal((await call(undefined, { jsonrpc: '2.0', id: 1, method: 'ping' })).status, 401);
+    assert.equal((await call(undefined, { jsonrpc: '2.0', id: 2, method: 'ping' })).status, 401);
+
+    const limited = await call(undefined, { jsonrpc: '2.0', id: 3, method: 'ping' });
+    assert.equal(limited.status, 429);
+    assert.ok(limited.headers.get('retry-after'));
+    assert.equal((await limited.json()).id, null);
+
+    assert.equal((await call('erin', { jsonrpc: '2.0', id: 4, method: 'ping' })).status, 200);
+    assert.equal((await call(undefined, { jsonrpc: '2.0', id: 5, method: 'ping' })).status, 429);
+    assert.ok(auditRecords.some((entry) => entry.event === 'rate.limited' && (entry as any).limit === 'unauthenticated'));
+  });
+
+  it('lets requests through when the store fails', async () => {
+    const broken: RateLimitStore = {
+      increment: async () => {
+        throw new Error('connection refused');
+      },
+    };
+    const failOpen = createRateLimiter({ store: broken });
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', async (req, res, next) => {
+      if (!req.headers.authorization) {
+        if (!(await failOpen.limitFailures(req, res))) {
+          res.status(401).json({ error: 'invalid_token' });
+        }
+        return;
+      }
+      (req as any).auth = { token: 't', clientId: 'c', scopes: [], extra: { context: { subject: 'frank' } } };
+      next();
+    }, failOpen.authenticated, (req, res) => res.json({ ok: true }));
+
+    const server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    try {
+      const send = (headers: Record<string, string>) =>
+        fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...headers },
+          body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+        });
+      assert.equal((await send({ Authorization: 'Bearer t' })).status, 200);
+      assert.equal((await send({})).status, 401);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
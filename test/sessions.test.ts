@@ -0,0 +1,519 @@
+/**
+ * Session and event stores, and multi-instance serving: two apps sharing a Redis stand-in, where a
+ * session initialized on one is served, resumed and ended on the other. Also covers stateless mode.
+ */
+
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorReply } from 'redis';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { EventStore, StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import {
+  McpApp,
+  RedisConnection,
+  SessionRecord,
+  SessionStore,
+  connectRedis,
+  createMcpApp,
+  createMemoryEventStore,
+  createMemorySessionStore,
+  createRedisEventStore,
+  createRedisSessionStore,
+  getAuthContext,
+  scopeEventStore,
+} from '../src/index.js';
+import { restoreInitializedSession } from '../src/sessions.js';
+import { MockOidc, startMockOidc } from './mock-oidc.js';
+import { MockRedis, startMockRedis } from './mock-redis.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: { roots: {} },
+    clientInfo: { name: 'sessions-test', version: '1.0.0' },
+  },
+};
+
+// Public URL shared by every instance behind the load balancer; it is the tokens' audience
+const PUBLIC_URL = 'https://mcp.example.com';
+
+// JSON-RPC messages and their event IDs from a JSON or SSE response body
+async function readEvents(response: Response): Promise<{ id?: string; message: any }[]> {
+  const text = await response.text();
+  if (!(response.headers.get('content-type') ?? '').includes('text/event-stream')) {
+    return text ? [{ message: JSON.parse(text) }] : [];
+  }
+  return text
+    .split('\n\n')
+    .map((event) => ({
+      id: event.match(/^id: ?(.*)$/m)?.[1],
+      data: event.match(/^data: ?(.*)$/m)?.[1],
+    }))
+    .filter((event) => event.data)
+    .map((event) => ({ id: event.id, message: JSON.parse(event.data!) }));
+}
+
+function record(sessionId: string, subject: string, expiresAt: number): SessionRecord {
+  return {
+    sessionId,
+    owner: { subject, clientId: 'client', issuer: 'https://issuer.example.com' },
+    client: { protocolVersion: '2025-03-26', capabilities: {}, info: { name: 'test', version: '1.0.0' } },
+    createdAt: expiresAt - 60_000,
+    lastActivity: expiresAt - 60_000,
+    expiresAt,
+  };
+}
+
+async function exerciseSessionStore(store: SessionStore) {
+  const now = Date.now();
+  const alice = record('s1', 'alice', now + 10_000);
+  await store.set(alice);
+  await store.set(record('s2', 'alice', now + 20_000));
+  await store.set(record('s3', 'bob', now + 20_000));
+
+  assert.deepEqual(await store.get('s1'), alice);
+  assert.equal(await store.get('missing'), undefined);
+  assert.equal(await store.countOwned(alice.owner, now), 2);
+
+  await store.delete('s2');
+  assert.equal(await store.get('s2'), undefined);
+  assert.equal(await store.countOwned(alice.owner, now), 1);
+  assert.equal(await store.countOwned(alice.owner, now + 15_000), 0, 'expired sessions are not counted');
+}
+
+async function exerciseEventStore(store: EventStore) {
+  const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', id, result: {} });
+  // Priming event, as the SDK stores it
+  const priming = await store.storeEvent('stream_1', {} as JSONRPCMessage);
+  const first = await store.storeEvent('stream_1', message(1));
+  await store.storeEvent('other', message(99));
+  const second = await store.storeEvent('stream_1', message(2));
+  await store.storeEvent('stream_1', message(3));
+
+  assert.equal(await store.getStreamIdForEventId!(first), 'stream_1');
+  assert.equal(await store.getStreamIdForEventId!('unknown_1'), undefined);
+  assert.equal(await store.getStreamIdForEventId!('no-separator'), undefined);
+
+  const replayed: [string, JSONRPCMessage][] = [];
+  const streamId = await store.replayEventsAfter(priming, { send: async (eventId, sent) => void replayed.push([eventId, sent]) });
+  assert.equal(streamId, 'stream_1');
+  assert.deepEqual(replayed.map(([, sent]) => (sent as any).id), [1, 2, 3]);
+  assert.equal(replayed[0][0], first);
+  assert.equal(replayed[1][0], second);
+
+  replayed.length = 0;
+  await store.replayEventsAfter(second, { send: async (eventId, sent) => void replayed.push([eventId, sent]) });
+  assert.deepEqual(replayed.map(([, sent]) => (sent as any).id), [3]);
+}
+
+describe('session stores', () => {
+  let redis: MockRedis;
+  let connection: RedisConnection;
+
+  before(async () => {
+    redis = await startMockRedis({ password: 's3cret' });
+    connection = connectRedis(redis.url);
+  });
+
+  after(async () => {
+    await connection.close();
+    await redis.close();
+  });
+
+  it('memory store keeps records and counts unexpired sessions per owner', async () => {
+    const store = createMemorySessionStore();
+    assert.equal(store.shared, false);
+    await exerciseSessionStore(store);
+  });
+
+  it('Redis store does the same over RESP, authenticated', async () => {
+    const store = createRedisSessionStore({ command: connection.command, transaction: connection.transaction, prefix: 'test:' });
+    assert.equal(store.shared, true);
+    await exerciseSessionStore(store);
+    assert.ok(redis.commands.some((command) => command.startsWith('AUTH ')));
+    assert.ok(redis.commands.includes('SET test:session:s1'));
+  });
+
+  it('writes a session and its owner entry in one transaction, expiring the owner set with its last session', async () => {
+    const store = createRedisSessionStore({ command: connection.command, transaction: connection.transaction, prefix: 'ttl:', grace: 0 });
+    const ownerKey = 'ttl:owner:https://issuer.example.com|erin|client';
+    const now = Date.now();
+
+    await store.set(record('t1', 'erin', now + 20_000));
+    await store.set(record('t2', 'erin', now + 10_000));
+    assert.equal(redis.expiresAt(ownerKey), now + 20_000, 'a shorter session does not shorten it');
+    await store.set(record('t2', 'erin', now + 30_000));
+    assert.equal(redis.expiresAt(ownerKey), now + 30_000);
+    assert.ok(redis.commands.includes('MULTI') && redis.commands.includes('EXEC'));
+  });
+
+  it('reconnects after the connection drops', async () => {
+    const store = createRedisSessionStore({ command: connection.command, transaction: connection.transaction });
+    await store.set(record('r1', 'carol', Date.now() + 60_000));
+    redis.disconnectAll();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.equal((await store.get('r1'))?.owner.subject, 'carol');
+  });
+
+  it('surfaces Redis errors and times out commands it cannot send', async () => {
+    await assert.rejects(connection.command(['NOSUCHCOMMAND']), ErrorReply);
+
+    const wrongPassword = connectRedis(redis.url.replace('s3cret', 'wrong'), { commandTimeout: 200 });
+    try {
+      await assert.rejects(wrongPassword.command(['GET', 'anything']));
+    } finally {
+      await wrongPassword.close();
+    }
+  });
+});
+
+describe('event stores', () => {
+  it('memory store replays events after a Last-Event-ID, skipping priming events', async () => {
+    const store = createMemoryEventStore();
+    await exerciseEventStore(store);
+    store.close();
+  });
+
+  it('Redis store does the same', async () => {
+    const redis = await startMockRedis();
+    const connection = connectRedis(redis.url);
+    try {
+      await exerciseEventStore(createRedisEventStore({ command: connection.command, transaction: connection.transaction }));
+    } finally {
+      await connection.close();
+      await redis.close();
+    }
+  });
+
+  it('keeps only the most recent events per stream', async () => {
+    const store = createMemoryEventStore({ maxEventsPerStream: 2 });
+    const first = await store.storeEvent('s', { jsonrpc: '2.0', id: 1, result: {} });
+    for (let id = 2; id <= 4; id++) {
+      await store.storeEvent('s', { jsonrpc: '2.0', id, result: {} });
+    }
+    const replayed: number[] = [];
+    await store.replayEventsAfter(first, { send: async (_eventId, message) => void replayed.push((message as any).id) });
+    assert.deepEqual(replayed, [3, 4]);
+    store.close();
+  });
+
+  it('scopes streams to a session', async () => {
+    const store = createMemoryEventStore();
+    const mine = scopeEventStore(store, 'session-a');
+    const theirs = scopeEventStore(store, 'session-b');
+
+    const eventId = await mine.storeEvent('_GET_stream', { jsonrpc: '2.0', method: 'notifications/tools/list_changed' });
+    await mine.storeEvent('_GET_stream', { jsonrpc: '2.0', id: 1, result: {} });
+    assert.match(eventId, /^session-a\/_GET_stream_/);
+
+    assert.equal(await mine.getStreamIdForEventId!(eventId), '_GET_stream');
+    assert.equal(await theirs.getStreamIdForEventId!(eventId), undefined);
+    await assert.rejects(theirs.replayEventsAfter(eventId, { send: async () => {} }), /another session/);
+
+    const replayed: JSONRPCMessage[] = [];
+    assert.equal(await mine.replayEventsAfter(eventId, { send: async (_id, message) => void replayed.push(message) }), '_GET_stream');
+    assert.equal(replayed.length, 1);
+    store.close();
+  });
+});
+
+// Restoring a session sets private SDK fields; this fails if an SDK upgrade renames or removes them
+describe('restoreInitializedSession', () => {
+  it('marks a fresh transport and server as initialized with the stored client', () => {
+    const server = new McpServer({ name: 'restored', version: '1.0.0' });
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'unused' });
+    const inner = (transport as any)._webStandardTransport;
+    assert.ok(inner, 'transport wraps a web standard transport');
+    assert.equal(inner._initialized, false);
+
+    const stored = record('restored-1', 'dave', Date.now() + 60_000);
+    restoreInitializedSession(server, transport, {
+      ...stored,
+      client: { protocolVersion: '2025-03-26', capabilities: { roots: {} }, info: { name: 'restored-client', version: '2.0.0' } },
+    });
+
+    assert.equal(transport.sessionId, 'restored-1');
+    assert.equal(inner._initialized, true);
+    assert.deepEqual(server.server.getClientCapabilities(), { roots: {} });
+    assert.deepEqual(server.server.getClientVersion(), { name: 'restored-client', version: '2.0.0' });
+  });
+
+  it('fails with a clear error on a transport without the expected fields', () => {
+    const server = new McpServer({ name: 'restored', version: '1.0.0' });
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: () => 'unused' });
+    Reflect.deleteProperty(transport, '_webStandardTransport');
+    assert.throws(() => restoreInitializedSession(server, transport, record('restored-2', 'dave', Date.now() + 60_000)), /version of the MCP SDK/);
+  });
+});
+
+describe('multiple instances sharing a Redis session store', () => {
+  let mock: MockOidc;
+  let redis: MockRedis;
+  const instances: { mcp: McpApp; httpServer: Server; connection: RedisConnection; url: string }[] = [];
+
+  function register(server: McpServer) {
+    server.tool('whoami', 'Returns the caller and whether the client declared roots', {}, async (_args, extra) => ({
+      content: [{ type: 'text', text: `${getAuthContext(extra).username} roots=${Boolean(server.server.getClientCapabilities()?.roots)}` }],
+    }));
+    server.tool('slow', 'Logs progress before answering', {}, async (_args, extra) => {
+      await extra.sendNotification({ method: 'notifications/message', params: { level: 'info', data: 'working' } });
+      return { content: [{ type: 'text', text: 'done' }] };
+    });
+  }
+
+  async function startInstance(options: { stateless?: boolean } = {}) {
+    const connection = connectRedis(redis.url);
+    const mcp = createMcpApp({
+      serverInfo: { name: 'scaled', version: '1.0.0' },
+      serverOptions: { capabilities: { logging: {} } },
+      register,
+      auth: { serverUrl: PUBLIC_URL, trustedIssuers: [mock.issuer] },
+      sessions: { store: createRedisSessionStore({ command: connection.command, transaction: connection.transaction }) },
+      eventStore: createRedisEventStore({ command: connection.command, transaction: connection.transaction }),
+      stateless: options.stateless,
+    });
+    await mcp.initialize();
+    const host = express();
+    host.use(mcp.app);
+    const httpServer = await new Promise<Server>((resolve) => {
+      const server = host.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    const instance = { mcp, httpServer, connection, url: `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}` };
+    instances.push(instance);
+    return instance;
+  }
+
+  function request(url: string, method: string, token: string, options: { body?: unknown; sessionId?: string; lastEventId?: string } = {}) {
+    return fetch(`${url}/mcp`, {
+      method,
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...(options.sessionId ? { 'mcp-session-id': options.sessionId } : {}),
+        ...(options.lastEventId ? { 'last-event-id': options.lastEventId } : {}),
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+  }
+
+  const callTool = (id: number, name: string) => ({ jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: {} } });
+
+  async function initialize(url: string, token: string) {
+    const response = await request(url, 'POST', token, { body: INITIALIZE });
+    assert.equal(response.status, 200);
+    await response.text();
+    const sessionId = response.headers.get('mcp-session-id')!;
+    await request(url, 'POST', token, { body: { jsonrpc: '2.0', method: 'notifications/initialized' }, sessionId });
+    return sessionId;
+  }
+
+  before(async () => {
+    mock = await startMockOidc({ audience: `${PUBLIC_URL}/mcp` });
+    redis = await startMockRedis();
+  });
+
+  after(async () => {
+    for (const instance of instances) {
+      await instance.mcp.close();
+      await instance.connection.close();
+      instance.httpServer.closeAllConnections();
+      await new Promise((resolve) => instance.httpServer.close(resolve));
+    }
+    await redis.close();
+    await mock.close();
+  });
+
+  it('serves a session on an instance other than the one that created it', async () => {
+    const [a, b] = [await startInstance(), await startInstance()];
+    const token = await mock.signToken();
+    const sessionId = await initialize(a.url, token);
+
+    const [call] = await readEvents(await request(b.url, 'POST', token, { body: callTool(2, 'whoami'), sessionId }));
+    assert.equal(call.message.result.content[0].text, 'testuser roots=true', 'client capabilities travel with the session');
+    assert.equal(b.mcp.sessions.size, 1);
+
+    // Ownership is enforced wherever the session is served
+    const intruder = await mock.signToken({ sub: 'user-2', preferred_username: 'mallory' });
+    assert.equal((await request(b.url, 'POST', intruder, { body: callTool(3, 'whoami'), sessionId })).status, 403);
+
+    // Ending it on one instance ends it everywhere
+    assert.equal((await request(b.url, 'DELETE', token, { sessionId })).status, 204);
+    assert.equal((await request(a.url, 'POST', token, { body: callTool(4, 'whoami'), sessionId })).status, 404);
+    assert.equal(a.mcp.sessions.size, 0);
+  });
+
+  it('replays missed events from the shared event store on another instance', async () => {
+    const [a, b] = instances;
+    const token = await mock.signToken();
+    const sessionId = await initialize(a.url, token);
+
+    const events = await readEvents(await request(a.url, 'POST', token, { body: callTool(5, 'slow'), sessionId }));
+    assert.deepEqual(events.map((event) => event.message.method ?? 'result'), ['notifications/message', 'result']);
+    assert.ok(events[0].id?.startsWith(`${sessionId}/`));
+
+    // The client lost the connection after the notification and reconnects to the other instance
+    const controller = new AbortController();
+    const resumed = await fetch(`${b.url}/mcp`, {
+      headers: { Accept: 'text/event-stream', Authorization: `Bearer ${token}`, 'mcp-session-id': sessionId, 'last-event-id': events[0].id! },
+      signal: controller.signal,
+    });
+    assert.equal(resumed.status, 200);
+    const reader = resumed.body!.getReader();
+    let text = '';
+    while (!text.includes('"id":5')) {
+      const { value, done } = await reader.read();
+      assert.ok(!done, 'stream ended before the replayed result');
+      text += new TextDecoder().decode(value);
+    }
+    assert.match(text, new RegExp(`id: ${events[1].id}`));
+    controller.abort();
+
+    // Another session's event IDs are refused
+    const other = await initialize(b.url, token);
+    const foreign = await request(b.url, 'GET', token, { sessionId: other, lastEventId: events[0].id });
+    assert.equal(foreign.status, 400);
+    await foreign.text();
+  });
+
+  it('counts the per-user session cap across instances', async () => {
+    const [a, b] = instances;
+    const token = await mock.signToken({ sub: 'user-3', preferred_username: 'capped' });
+    const limited = createMcpApp({
+      serverInfo: { name: 'scaled', version: '1.0.0' },
+      serverOptions: { capabilities: { logging: {} } },
+      register,
+      auth: { serverUrl: PUBLIC_URL, trustedIssuers: [mock.issuer] },
+      sessions: { maxPerUser: 1, store: createRedisSessionStore({ command: a.connection.command, transaction: a.connection.transaction }) },
+    });
+    await limited.initialize();
+    const host = express().use(limited.app);
+    const httpServer = await new Promise<Server>((resolve) => {
+      const server = host.listen(0, '127.0.0.1', () => resolve(server));
+    });
+    try {
+      await initialize(b.url, token);
+      const url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+      const rejected = await request(url, 'POST', token, { body: INITIALIZE });
+      assert.equal(rejected.status, 429);
+      await rejected.text();
+    } finally {
+      await limited.close();
+      httpServer.closeAllConnections();
+      await new Promise((resolve) => httpServer.close(resolve));
+    }
+  });
+
+  it('serves each request on its own in stateless mode', async () => {
+    const stateless = await startInstance({ stateless: true });
+    const token = await mock.signToken();
+
+    const initialized = await request(stateless.url, 'POST', token, { body: INITIALIZE });
+    assert.equal(initialized.status, 200);
+    assert.equal(initialized.headers.get('mcp-session-id'), null);
+    await initialized.text();
+
+    const [call] = await readEvents(await request(stateless.url, 'POST', token, { body: callTool(2, 'whoami') }));
+    assert.match(call.message.result.content[0].text, /^testuser/);
+    assert.equal(stateless.mcp.sessions.size, 0);
+
+    const stream = await request(stateless.url, 'GET', token);
+    assert.equal(stream.status, 405);
+    await stream.text();
+  });
+});
+
+describe('a session store that is unavailable', () => {
+  let mock: MockOidc;
+  let mcp: McpApp;
+  let httpServer: Server;
+  let url: string;
+  // Store operations that currently reject
+  const failing = new Set<'set' | 'delete' | 'countOwned'>();
+
+  before(async () => {
+    mock = await startMockOidc({ audience: `${PUBLIC_URL}/mcp` });
+    const memory = createMemorySessionStore();
+    const unavailable = () => Promise.reject(new Error('connection refused'));
+    const store: SessionStore = {
+      ...memory,
+      set: (record) => (failing.has('set') ? unavailable() : memory.set(record)),
+      delete: (sessionId) => (failing.has('delete') ? unavailable() : memory.delete(sessionId)),
+      countOwned: (owner, now) => (failing.has('countOwned') ? unavailable() : memory.countOwned(owner, now)),
+    };
+    mcp = createMcpApp({
+      serverInfo: { name: 'flaky', version: '1.0.0' },
+      register: () => {},
+      auth: { serverUrl: PUBLIC_URL, trustedIssuers: [mock.issuer] },
+      sessions: { store },
+    });
+    await mcp.initialize();
+    httpServer = await new Promise<Server>((resolve) => {
+      const server = express().use(mcp.app).listen(0, '127.0.0.1', () => resolve(server));
+    });
+    url = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}/mcp`;
+  });
+
+  after(async () => {
+    failing.clear();
+    await mcp.close();
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer.close(resolve));
+    await mock.close();
+  });
+
+  async function send(method: string, token: string, options: { body?: unknown; sessionId?: string } = {}) {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/json, text/event-stream',
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${token}`,
+        ...(options.sessionId ? { 'mcp-session-id': options.sessionId } : {}),
+      },
+      body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    });
+    await response.text();
+    return response;
+  }
+
+  it('answers 503 instead of opening a session it cannot store', async () => {
+    const token = await mock.signToken();
+
+    for (const operation of ['countOwned', 'set'] as const) {
+      failing.add(operation);
+      const response = await send('POST', token, { body: INITIALIZE });
+      failing.delete(operation);
+      assert.equal(response.status, 503, operation);
+      assert.equal(response.headers.get('mcp-session-id'), null);
+      assert.equal(mcp.sessions.size, 0);
+    }
+
+    const opened = await send('POST', token, { body: INITIALIZE });
+    assert.equal(opened.status, 200);
+    assert.equal(mcp.sessions.size, 1);
+  });
+
+  it('answers 503 when a session cannot be ended', async () => {
+    const token = await mock.signToken();
+    const opened = await send('POST', token, { body: INITIALIZE });
+    const sessionId = opened.headers.get('mcp-session-id')!;
+
+    failing.add('delete');
+    assert.equal((await send('DELETE', token, { sessionId })).status, 503);
+    failing.delete('delete');
+
+    // Still open and served here, so a retry can end it
+    assert.ok(mcp.sessions.get(sessionId));
+    assert.equal((await send('POST', token, { body: { jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId })).status, 200);
+    assert.equal((await send('DELETE', token, { sessionId })).status, 204);
+    assert.equal((await send('POST', token, { body: { jsonrpc: '2.0', id: 3, method: 'ping' }, sessionId })).status, 404);
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Test client tests: runs the discovery src/test-client.ts performs before logging in against
+ * createMcpApp and the mock OIDC provider, and checks its SSE parser and token cache expiry.
+ */
+
+import express from 'express';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { McpApp, createMcpApp } from '../src/index.js';
+import {
+  SseEvent,
+  canRefresh,
+  discover,
+  fetchAuthorizationServerMetadata,
+  isFresh,
+  parseWwwAuthenticate,
+  readSseEvents,
+  toCachedTokens,
+} from '../src/test-client.js';
+import { MockOidc, startMockOidc } from './mock-oidc.js';
+
+async function listen(handler: http.RequestListener): Promise<{ server: http.Server; baseUrl: string }> {
+  const server = http.createServer(handler);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return { server, baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+async function close(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+}
+
+describe('test client discovery', () => {
+  let mock: MockOidc;
+  let mcp: McpApp;
+  let httpServer: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const host = express();
+    ({ server: httpServer, baseUrl } = await listen(host));
+    mock = await startMockOidc({ audience: `${baseUrl}/mcp` });
+
+    mcp = createMcpApp({
+      serverInfo: { name: 'test-client-test', version: '1.0.0' },
+      register: () => {},
+      auth: { serverUrl: baseUrl, trustedIssuers: [mock.issuer] },
+    });
+    await mcp.initialize();
+    host.use(mcp.app);
+  });
+
+  after(async () => {
+    await mcp.close();
+    await close(httpServer);
+    await mock.close();
+  });
+
+  it('follows the 401 challenge to the resource and authorization server metadata', async () => {
+    const discovered = await discover(`${baseUrl}/mcp`, 'openid mcp:read');
+    assert.equal(discovered.resourceMetadataUrl, `${baseUrl}/.well-known/oauth-protected-resource`);
+    assert.equal(discovered.resource, `${baseUrl}/mcp`);
+    assert.equal(discovered.authorizationServer.issuer, mock.issuer);
+    assert.equal(discovered.authorizationServer.token_endpoint, `${mock.issuer}/protocol/openid-connect/token`);
+    assert.equal(discovered.scope, 'openid mcp:read');
+  });
+
+  it('finds path-style issuer metadata after the RFC 8414 locations', async () => {
+    mock.requests.length = 0;
+    const metadata = await fetchAuthorizationServerMetadata(mock.issuer);
+    assert.equal(metadata.issuer, mock.issuer);
+    assert.deepEqual(mock.requests, [
+      `GET /.well-known/oauth-authorization-server/realms/${mock.realm}`,
+      `GET /.well-known/openid-configuration/realms/${mock.realm}`,
+      `GET /realms/${mock.realm}/.well-known/openid-configuration`,
+    ]);
+  });
+
+  it('rejects metadata that names another issuer', async () => {
+    const { server, baseUrl: impostor } = await listen((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ issuer: mock.issuer, token_endpoint: `${mock.issuer}/protocol/openid-connect/token` }));
+    });
+    try {
+      await assert.rejects(fetchAuthorizationServerMetadata(`${impostor}/realms/${mock.realm}`), /Issuer mismatch/);
+    } finally {
+      await close(server);
+    }
+  });
+
+  it('fails when the endpoint advertises no resource metadata', async () => {
+    const { server, baseUrl: unprotected } = await listen((req, res) => {
+      res.writeHead(404);
+      res.end();
+    });
+    try {
+      await assert.rejects(discover(`${unprotected}/mcp`), /did not advertise protected resource metadata \(status 404\)/);
+    } finally {
+      await close(server);
+    }
+  });
+
+  it('parses quoted and bare challenge parameters', () => {
+    assert.deepEqual(parseWwwAuthenticate('Bearer error="invalid_token", error_description="say \\"hi\\"", scope=mcp:read'), {
+      error: 'invalid_token',
+      error_description: 'say "hi"',
+      scope: 'mcp:read',
+    });
+  });
+});
+
+describe('test client SSE parser', () => {
+  async function parse(chunks: string[]): Promise<SseEvent[]> {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    const events: SseEvent[] = [];
+    for await (const event of readSseEvents(body)) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  it('yields events split across chunks and line endings', async () => {
+    const events = await parse(['event: message\r', '\nid: 1\r\ndata: {"a"', ':1}\r\n\r', '\ndata:line one\ndata: line two\rid:2\r\r']);
+    assert.deepEqual(events, [
+      { event: 'message', data: '{"a":1}', id: '1' },
+      { event: 'message', data: 'line one\nline two', id: '2' },
+    ]);
+  });
+
+  it('skips comments and events without data', async () => {
+    const events = await parse([': keep-alive\n\n', 'event: ping\n\n', 'data: x\n\n', 'data: unterminated\n']);
+    assert.deepEqual(events, [{ event: 'message', data: 'x', id: undefined }]);
+  });
+});
+
+describe('test client token cache', () => {
+  const now = 1_000_000;
+
+  it('stores absolute expiry times', () => {
+    const cached = toCachedTokens(
+      { access_token: 'a', token_type: 'Bearer', expires_in: 300, refresh_token: 'r', refresh_expires_in: 1800, scope: 'mcp:read' },
+      undefined,
+      now
+    );
+    assert.equal(cached.expires_at, now + 300_000);
+    assert.equal(cached.refresh_expires_at, now + 1_800_000);
+  });
+
+  it('keeps the previous refresh token when a refresh response omits it', () => {
+    const previous = toCachedTokens({ access_token: 'a', token_type: 'Bearer', expires_in: 300, refresh_token: 'r', refresh_expires_in: 1800 }, undefined, now);
+    const refreshed = toCachedTokens({ access_token: 'b', token_type: 'Bearer', expires_in: 300 }, previous, now + 60_000);
+    assert.equal(refreshed.access_token, 'b');
+    assert.equal(refreshed.refresh_token, 'r');
+    assert.equal(refreshed.refresh_expires_at, previous.refresh_expires_at);
+  });
+
+  it('refreshes access tokens shortly before they expire', () => {
+    const cached = toCachedTokens({ access_token: 'a', token_type: 'Bearer', expires_in: 60 }, undefined, now);
+    assert.equal(isFresh(cached, now), true);
+    assert.equal(isFresh(cached, now + 30_000), false);
+  });
+
+  it('only refreshes with a refresh token that has not expired', () => {
+    const cached = toCachedTokens({ access_token: 'a', token_type: 'Bearer', expires_in: 60, refresh_token: 'r', refresh_expires_in: 600 }, undefined, now);
+    assert.equal(canRefresh(cached, now + 599_000), true);
+    assert.equal(canRefresh(cached, now + 600_000), false);
+    assert.equal(canRefresh({ ...cached, refresh_expires_at: undefined }, now + 10_000_000), true);
+    assert.equal(canRefresh({ ...cached, refresh_token: undefined }, now), false);
+  });
+});